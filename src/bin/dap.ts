@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { DapCli } from '../cli';
+
+new DapCli().run(process.argv.slice(2)).then(exitCode => {
+  process.exitCode = exitCode;
+});
\ No newline at end of file
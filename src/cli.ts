@@ -0,0 +1,326 @@
+import type { VerificationContext } from './context';
+import type { Fetch } from './dap-resolver';
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { BearerDid, DidDht, DidJwk } from '@web5/dids';
+
+import { DapResolver } from './dap-resolver';
+import { DidResolver } from './did-resolver';
+import { MoneyAddress } from './money-address';
+import { NodeDidStorage } from './portable-did-node';
+import { DapRegistration } from './registration';
+import { RegistrationId } from './registration-id';
+import { DapRegistryClient } from './registry-client';
+
+const USAGE = `Usage: dap <command> [options]
+
+Commands:
+  did create [--method jwk|dht] [--publish] [--out <file>] [--passphrase-env <name>]
+      Generates a DID and prints it as a portable DID, including its private keys.
+  registration create --handle <handle> --domain <domain> (--did <file> | --did-env <name>) [--passphrase-env <name>]
+                      [--expires-at <date>] [--out <file>]
+      Creates a registration and signs it with a portable DID stored in a file or environment variable.
+  registration verify <file>
+      Validates a registration and verifies its signature.
+  register [--registry <url>] <file>
+      Submits a signed registration to a registry, discovered from the registration's domain by default.
+  resolve <dap>
+      Resolves a DAP to its DID and money addresses, and whether the DID advertises the DAP back.
+  id decode <id>
+      Prints the time at which a registration ID was created.
+
+Options:
+  --passphrase-env <name>    Encrypt or decrypt the portable DID with the passphrase in environment variable <name>.
+  --json                     Print results as JSON.
+  --help                     Print this message.`;
+
+/** The options accepted by every command, see {@link USAGE}. */
+const CLI_OPTIONS = {
+  'did': { type: 'string' },
+  'did-env': { type: 'string' },
+  'domain': { type: 'string' },
+  'expires-at': { type: 'string' },
+  'handle': { type: 'string' },
+  'help': { type: 'boolean', short: 'h' },
+  'json': { type: 'boolean' },
+  'method': { type: 'string' },
+  'out': { type: 'string' },
+  'passphrase-env': { type: 'string' },
+  'publish': { type: 'boolean' },
+  'registry': { type: 'string' },
+} as const;
+
+/**
+ * Options passed to the {@link DapCli} constructor
+ */
+export type DapCliOptions = VerificationContext & {
+  /** The function used to make HTTP requests to registries. Defaults to the global `fetch`. */
+  fetch?: Fetch
+  /** Writes to standard output. Defaults to `process.stdout`. */
+  stdout?: (text: string) => void
+  /** Writes to standard error. Defaults to `process.stderr`. */
+  stderr?: (text: string) => void
+  /** The environment variables portable DIDs and passphrases are read from. Defaults to `process.env`. */
+  env?: Record<string, string | undefined>
+}
+
+/**
+ * The `dap` command-line tool, used to create, verify and register DAP registrations.
+ *
+ * Every command prints its result as `key: value` lines, or as JSON with `--json`.
+ */
+export class DapCli {
+  private readonly fetch: Fetch;
+  private readonly stdout: (text: string) => void;
+  private readonly stderr: (text: string) => void;
+  private readonly env: Record<string, string | undefined>;
+  private readonly context: VerificationContext;
+  private json = false;
+
+  constructor({
+    fetch = globalThis.fetch,
+    stdout = text => process.stdout.write(text),
+    stderr = text => process.stderr.write(text),
+    env = process.env,
+    ...context
+  }: DapCliOptions = {}) {
+    this.fetch = fetch;
+    this.stdout = stdout;
+    this.stderr = stderr;
+    this.env = env;
+    this.context = context;
+  }
+
+  /**
+   * Runs a command.
+   * @param argv - The command-line arguments, without the executable and script paths.
+   * @returns The exit code: 0 on success, 1 if the command failed and 2 if it was invoked incorrectly.
+   */
+  async run(argv: string[]): Promise<number> {
+    let values: CliValues;
+    let positionals: string[];
+    try {
+      ({ values, positionals } = parseArgs({ args: argv, options: CLI_OPTIONS, allowPositionals: true }));
+    } catch (error: any) {
+      this.stderr(`${error?.message ?? 'Invalid arguments'}\n\n${USAGE}\n`);
+      return 2;
+    }
+
+    this.json = values.json === true;
+
+    if (values.help || positionals.length === 0) {
+      this.stdout(`${USAGE}\n`);
+      return values.help ? 0 : 2;
+    }
+
+    try {
+      const [command, ...args] = positionals;
+      switch (`${command} ${args[0] ?? ''}`.trim()) {
+        case 'did create':
+          return await this.createDid(values);
+        case 'registration create':
+          return await this.createRegistration(values);
+        case 'registration verify':
+          return await this.verifyRegistration(DapCli.#requireArg(args[1], '<file>'));
+        case 'id decode':
+          return this.decodeId(DapCli.#requireArg(args[1], '<id>'));
+      }
+
+      switch (command) {
+        case 'register':
+          return await this.register(values.registry, DapCli.#requireArg(args[0], '<file>'));
+        case 'resolve':
+          return await this.resolve(DapCli.#requireArg(args[0], '<dap>'));
+      }
+
+      throw new CliUsageError(`Unknown command: ${positionals.join(' ')}`);
+    } catch (error: any) {
+      if (error instanceof CliUsageError) {
+        this.stderr(`${error.message}\n\n${USAGE}\n`);
+        return 2;
+      }
+
+      const message = error?.message ?? 'Unknown error';
+      this.stderr(this.json ? `${JSON.stringify({ error: message })}\n` : `error: ${message}\n`);
+      return 1;
+    }
+  }
+
+  private async createDid({ method = 'jwk', publish, out, ...values }: CliValues): Promise<number> {
+    let did: BearerDid;
+    switch (method) {
+      case 'jwk':
+        did = await DidJwk.create();
+        break;
+      case 'dht':
+        did = await DidDht.create({ options: { publish: publish === true } });
+        break;
+      default:
+        throw new CliUsageError(`Unsupported DID method: ${method}`);
+    }
+
+    const serialized = await NodeDidStorage.serialize(did, { passphrase: this.readPassphrase(values) });
+    return await this.writeDocument(serialized, out, { did: did.uri });
+  }
+
+  private async createRegistration({ handle, domain, did, out, ...values }: CliValues): Promise<number> {
+    const passphrase = this.readPassphrase(values);
+
+    let bearerDid: BearerDid;
+    if (did !== undefined) {
+      bearerDid = await NodeDidStorage.readFile(did, { passphrase });
+    } else if (values['did-env'] !== undefined) {
+      bearerDid = await NodeDidStorage.fromEnv(values['did-env'], { passphrase, env: this.env });
+    } else {
+      throw new CliUsageError('Missing option --did or --did-env');
+    }
+
+    let expiresAt: Date | undefined;
+    if (values['expires-at'] !== undefined) {
+      expiresAt = new Date(values['expires-at']);
+      if (isNaN(expiresAt.getTime())) {
+        throw new CliUsageError(`Invalid --expires-at date: ${values['expires-at']}`);
+      }
+    }
+
+    const registration = DapRegistration.create({
+      handle: DapCli.#requireOption(handle, '--handle'),
+      domain: DapCli.#requireOption(domain, '--domain'),
+      did: bearerDid.uri,
+      expiresAt,
+    });
+    await registration.sign(bearerDid);
+
+    return await this.writeDocument(JSON.stringify(registration, null, 2), out, { id: registration.id.toString() });
+  }
+
+  private async verifyRegistration(file: string): Promise<number> {
+    const rawRegistration = await readFile(file, 'utf8');
+
+    try {
+      const registration = await DapRegistration.parse(rawRegistration, this.context);
+      this.print({ valid: true, id: registration.id.toString(), handle: registration.handle, domain: registration.domain, did: registration.did });
+      return 0;
+    } catch (error: any) {
+      this.print({ valid: false, error: error?.message ?? 'Unknown error' });
+      return 1;
+    }
+  }
+
+  private async register(registryUrl: string | undefined, file: string): Promise<number> {
+    const registration = await DapRegistration.parse(await readFile(file, 'utf8'), this.context);
+    const client = registryUrl === undefined
+      ? await DapRegistryClient.discover(registration.domain, { fetch: this.fetch, ...this.context, didMethod: registration.did })
+      : new DapRegistryClient(registryUrl, { fetch: this.fetch, ...this.context });
+
+    const { proof } = await client.register(registration);
+    this.print({ registered: true, id: proof.id, handle: proof.handle, domain: proof.domain, did: proof.did });
+
+    return 0;
+  }
+
+  private async resolve(dap: string): Promise<number> {
+    const result = await new DapResolver({ fetch: this.fetch, ...this.context }).resolve(dap);
+    const moneyAddresses = await MoneyAddress.fromDid(result.did, this.context.didResolver ?? DidResolver);
+
+    this.print({
+      dap: result.dap.toString(),
+      did: result.did,
+      registryUrl: result.registryUrl,
+      registrationId: result.proof.id.toString(),
+      bidirectional: result.binding.bidirectional,
+      moneyAddresses: moneyAddresses.map(maddr => maddr.toString()),
+    });
+
+    return 0;
+  }
+
+  private decodeId(id: string): number {
+    const registrationId = RegistrationId.parse(id);
+
+    this.print({ id: registrationId.toString(), timestamp: registrationId.extractTimestamp(), date: registrationId.extractDate().toISOString() });
+
+    return 0;
+  }
+
+  /**
+   * Writes a JSON document to a file readable only by the current user and prints a summary, or prints the
+   * document if no file is given.
+   */
+  private async writeDocument(document: string, out: string | undefined, summary: Record<string, unknown>): Promise<number> {
+    if (out === undefined) {
+      this.stdout(`${document}\n`);
+    } else {
+      await writeFile(out, document, { mode: 0o600 });
+      this.print({ ...summary, file: out });
+    }
+
+    return 0;
+  }
+
+  /**
+   * Reads the passphrase from the environment variable named by `--passphrase-env`, if given.
+   */
+  private readPassphrase(values: CliValues): string | undefined {
+    const name = values['passphrase-env'];
+    if (name === undefined) {
+      return undefined;
+    }
+
+    const passphrase = this.env[name];
+    if (!passphrase) {
+      throw new CliUsageError(`Environment variable ${name} is not set`);
+    }
+    return passphrase;
+  }
+
+  private print(result: Record<string, unknown>): void {
+    if (this.json) {
+      this.stdout(`${JSON.stringify(result, null, 2)}\n`);
+      return;
+    }
+
+    const lines = Object.entries(result).map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : value}`);
+    this.stdout(`${lines.join('\n')}\n`);
+  }
+
+  static #requireArg(value: string | undefined, name: string): string {
+    if (value === undefined) {
+      throw new CliUsageError(`Missing argument ${name}`);
+    }
+    return value;
+  }
+
+  static #requireOption(value: string | undefined, name: string): string {
+    if (value === undefined) {
+      throw new CliUsageError(`Missing option ${name}`);
+    }
+    return value;
+  }
+}
+
+type CliValues = {
+  'did'?: string
+  'did-env'?: string
+  'domain'?: string
+  'expires-at'?: string
+  'handle'?: string
+  'help'?: boolean
+  'json'?: boolean
+  'method'?: string
+  'out'?: string
+  'passphrase-env'?: string
+  'publish'?: boolean
+  'registry'?: string
+}
+
+/**
+ * Error thrown when the CLI is invoked with missing or invalid arguments.
+ */
+class CliUsageError extends Error {
+  constructor(message?: string) {
+    super(message ?? 'Invalid arguments');
+    this.name = 'CliUsageError';
+  }
+}
\ No newline at end of file
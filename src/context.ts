@@ -0,0 +1,26 @@
+import type { KmsVerifyParams } from '@web5/crypto';
+import type { DidResolverInterface } from './did-resolver';
+
+/**
+ * Anything capable of verifying a signature with a public key, such as a `LocalKeyManager` or a KMS-backed verifier.
+ */
+export interface SignatureVerifier {
+  /**
+   * Verifies a signature over the given data.
+   * @returns `true` if the signature is valid.
+   */
+  verify(params: KmsVerifyParams): Promise<boolean>;
+}
+
+/**
+ * The dependencies used to verify signatures and registrations. Every field falls back to a default,
+ * so callers only override what they need, e.g. an offline resolver in tests or extra DID methods.
+ */
+export type VerificationContext = {
+  /** The resolver used to resolve DIDs and dereference verification methods. Defaults to {@link DidResolver}. */
+  didResolver?: DidResolverInterface
+  /** The verifier used to check signatures. Defaults to a `LocalKeyManager`. */
+  verifier?: SignatureVerifier
+  /** Returns the current time, e.g. when checking expiry. Defaults to the system clock. */
+  clock?: () => Date
+}
\ No newline at end of file
@@ -1,13 +1,16 @@
 import type { JwsHeaderParams} from '@web5/crypto';
+import type { DidDocument, DidVerificationMethod, DidVerificationRelationship } from '@web5/dids';
 
 import { BearerDid } from '@web5/dids';
-import { isDidVerificationMethod } from '@web5/dids/utils';
+import { getVerificationRelationshipsById, isDidVerificationMethod } from '@web5/dids/utils';
 import { Convert } from '@web5/common';
 import { canonicalize, isPublicJwk, LocalKeyManager, Sha256 } from '@web5/crypto';
 
+import type { VerificationContext } from './context';
+
 import { DidResolver } from './did-resolver';
 
-// Instantiate a LocalKeyManager to use for verifying signatures.
+// Instantiate a LocalKeyManager to use for verifying signatures unless another verifier is provided.
 const keyManager = new LocalKeyManager()
 
 /**
@@ -20,22 +23,89 @@ export type SignOptions = {
   did: BearerDid
   /** The payload to be signed. */
   payload: Uint8Array
+  /** The media type to declare in the `typ` JWS header, if any. */
+  typ?: string
+}
+
+/**
+ * Policy applied to JWS headers and signing keys by {@link Crypto.verify} and {@link Crypto.verifyGeneral}
+ */
+export type JwsVerificationPolicy = {
+  /** The algorithms accepted in the `alg` JWS header. Defaults to {@link Crypto.SUPPORTED_ALGORITHMS}. */
+  allowedAlgorithms?: string[]
+  /** If set, the `typ` JWS header must equal this media type. */
+  typ?: string
+  /**
+   * Verification relationships of the signer's DID Document, at least one of which must list the signing key.
+   * Defaults to `assertionMethod` and `authentication`. Pass an empty array to skip the check.
+   */
+  verificationRelationships?: `${DidVerificationRelationship}`[]
 }
 
 /**
  * Options passed to {@link Crypto.verify}
  */
-export type VerifyOptions = {
+export type VerifyOptions = JwsVerificationPolicy & VerificationContext & {
   /** The payload that was signed. required only if the signature is a detached JWS */
   detachedPayload?: Uint8Array
   /** The Compact JWS to verify. */
   jws: string
 }
 
+/**
+ * A JWS in General JWS JSON Serialization, which can carry multiple signatures over the same payload.
+ * @see {@link https://datatracker.ietf.org/doc/html/rfc7515#section-7.2.1 | RFC 7515, § 7.2.1}
+ */
+export type GeneralJws = {
+  /** The Base64URL encoded payload. Omitted if the payload is detached. */
+  payload?: string
+  /** The signatures over the payload. */
+  signatures: {
+    /** The Base64URL encoded JWS Protected Header. */
+    protected: string
+    /** The Base64URL encoded signature. */
+    signature: string
+  }[]
+}
+
+/**
+ * Options passed to {@link Crypto.signGeneral}
+ */
+export type SignGeneralOptions = {
+  /** Indicates whether the payload is detached from the JWS. If `true`, the payload is not included in the resulting JWS. */
+  detached: boolean
+  /** The DIDs to sign with, in order. */
+  dids: BearerDid[]
+  /** The payload to be signed. */
+  payload: Uint8Array
+  /** The media type to declare in the `typ` JWS header of each signature, if any. */
+  typ?: string
+}
+
+/**
+ * Options passed to {@link Crypto.verifyGeneral}
+ */
+export type VerifyGeneralOptions = JwsVerificationPolicy & VerificationContext & {
+  /** The payload that was signed. required only if the signature is a detached JWS */
+  detachedPayload?: Uint8Array
+  /** The General JWS to verify. */
+  jws: GeneralJws
+}
+
 /**
  * Cryptographic utility functions, such as hashing, signing, and verifying
  */
 export class Crypto {
+  /** The JWS algorithms supported for verification, mapped to the key type and curve they require. */
+  static readonly SUPPORTED_ALGORITHMS: Readonly<Record<string, { kty: string, crv: string }>> = {
+    EdDSA: { kty: 'OKP', crv: 'Ed25519' },
+    ES256K: { kty: 'EC', crv: 'secp256k1' },
+    ES256: { kty: 'EC', crv: 'P-256' },
+  };
+
+  /** Header parameters this implementation understands when they are listed in the `crit` JWS header. */
+  static readonly #UNDERSTOOD_CRITICAL_PARAMS = ['b64'];
+
   /**
    * Computes a digest of the payload by:
    *
@@ -61,18 +131,9 @@ export class Crypto {
    * @returns A promise that resolves to the generated compact JWS.
    * @throws Will throw an error if the specified algorithm is not supported.
    */
-  static async sign({ did, payload, detached }: SignOptions) {
-    const signer = await did.getSigner();
-
-    const jwsHeader: JwsHeaderParams = { alg: signer.algorithm, kid: signer.keyId };
-    const jwsHeaderBase64Url = Convert.object(jwsHeader).toBase64Url();
+  static async sign({ did, payload, detached, typ }: SignOptions) {
     const payloadBase64Url = Convert.uint8Array(payload).toBase64Url();
-
-    const toSign = jwsHeaderBase64Url + '.' + payloadBase64Url;
-    const toSignBytes = Convert.string(toSign).toUint8Array();
-
-    const signatureBytes = await signer.sign({ data: toSignBytes });
-    const signatureBase64Url = Convert.uint8Array(signatureBytes).toBase64Url();
+    const { protected: jwsHeaderBase64Url, signature: signatureBase64Url } = await Crypto.#signPayload(did, payloadBase64Url, typ);
 
     if (detached) {
       // Compact JWS format without the payload: https://datatracker.ietf.org/doc/html/rfc7515#appendix-F
@@ -89,7 +150,7 @@ export class Crypto {
    * @returns A Promise that resolves to the DID of the signer if verification is successful.
    * @throws Various errors related to invalid input or failed verification.
    */
-  static async verify({ jws, detachedPayload }: VerifyOptions) {
+  static async verify({ jws, detachedPayload, ...policy }: VerifyOptions) {
     if (typeof jws !== 'string') {
       throw new InvalidJws('Signature verification failed: Expected Compact JWS in string format');
     }
@@ -107,6 +168,112 @@ export class Crypto {
       payloadBase64Url = Convert.uint8Array(detachedPayload).toBase64Url();
     }
 
+    return await Crypto.#verifySignature(jwsHeaderBase64Url, payloadBase64Url, signatureBase64Url, policy);
+  }
+
+  /**
+   * Signs the provided payload with each DID and produces a General JWS JSON Serialization.
+   *
+   * @param params - The parameters required for signing.
+   * @returns A promise that resolves to the generated General JWS.
+   * @throws Will throw an error if the specified algorithm is not supported.
+   */
+  static async signGeneral({ dids, payload, detached, typ }: SignGeneralOptions): Promise<GeneralJws> {
+    const jws: GeneralJws = { signatures: [] };
+    if (!detached) {
+      jws.payload = Convert.uint8Array(payload).toBase64Url();
+    }
+
+    for (const did of dids) {
+      await Crypto.addSignature({ jws, did, payload, typ });
+    }
+
+    return jws;
+  }
+
+  /**
+   * Adds a signature to an existing General JWS, e.g. a counter-signature.
+   *
+   * @param params - The JWS to add the signature to, the DID to sign with, the signed payload and an optional `typ` header.
+   * @returns A promise that resolves to the JWS, which is modified in place.
+   */
+  static async addSignature({ jws, did, payload, typ }: { jws: GeneralJws, did: BearerDid, payload: Uint8Array, typ?: string }): Promise<GeneralJws> {
+    const payloadBase64Url = Convert.uint8Array(payload).toBase64Url();
+    if (jws.payload !== undefined && jws.payload !== payloadBase64Url) {
+      throw new InvalidJws('Signing failed: Payload does not match the payload of the JWS');
+    }
+
+    jws.signatures.push(await Crypto.#signPayload(did, payloadBase64Url, typ));
+
+    return jws;
+  }
+
+  /**
+   * Verifies every signature of a General JWS JSON Serialization.
+   *
+   * @param params - The parameters required for verification.
+   * @returns A Promise that resolves to the DIDs of the signers, in signature order, if every signature is valid.
+   * @throws {InvalidJws} If the JWS is malformed or any of its signatures is invalid.
+   */
+  static async verifyGeneral({ jws, detachedPayload, ...policy }: VerifyGeneralOptions): Promise<string[]> {
+    if (typeof jws !== 'object' || jws === null || !Array.isArray(jws.signatures) || jws.signatures.length === 0) {
+      throw new InvalidJws('Signature verification failed: Expected General JWS with at least one signature');
+    }
+
+    let payloadBase64Url = jws.payload;
+    if (detachedPayload) {
+      if (payloadBase64Url !== undefined && payloadBase64Url.length !== 0) { // Ensure that if a detached payload is provided, the JWS payload is empty.
+        throw new InvalidJws('Signature verification failed: Expected detached JWS with empty payload');
+      }
+      payloadBase64Url = Convert.uint8Array(detachedPayload).toBase64Url();
+    }
+
+    if (typeof payloadBase64Url !== 'string') {
+      throw new InvalidJws('Signature verification failed: Expected payload in JWS or detached payload');
+    }
+
+    const signers: string[] = [];
+    for (const { protected: jwsHeaderBase64Url, signature: signatureBase64Url } of jws.signatures) {
+      if (typeof jwsHeaderBase64Url !== 'string' || typeof signatureBase64Url !== 'string') {
+        throw new InvalidJws('Signature verification failed: Expected "protected" and "signature" strings in every signature');
+      }
+      signers.push(await Crypto.#verifySignature(jwsHeaderBase64Url, payloadBase64Url, signatureBase64Url, policy));
+    }
+
+    return signers;
+  }
+
+  /**
+   * Signs a Base64URL encoded payload and returns the protected header and signature.
+   */
+  static async #signPayload(did: BearerDid, payloadBase64Url: string, typ?: string): Promise<GeneralJws['signatures'][number]> {
+    const signer = await did.getSigner();
+
+    const jwsHeader: JwsHeaderParams = { alg: signer.algorithm, kid: signer.keyId };
+    if (typ !== undefined) {
+      jwsHeader.typ = typ;
+    }
+    const jwsHeaderBase64Url = Convert.object(jwsHeader).toBase64Url();
+
+    const toSign = jwsHeaderBase64Url + '.' + payloadBase64Url;
+    const toSignBytes = Convert.string(toSign).toUint8Array();
+
+    const signatureBytes = await signer.sign({ data: toSignBytes });
+    const signatureBase64Url = Convert.uint8Array(signatureBytes).toBase64Url();
+
+    return { protected: jwsHeaderBase64Url, signature: signatureBase64Url };
+  }
+
+  /**
+   * Verifies a single signature over a Base64URL encoded protected header and payload.
+   * @returns The DID of the signer.
+   */
+  static async #verifySignature(
+    jwsHeaderBase64Url: string,
+    payloadBase64Url: string,
+    signatureBase64Url: string,
+    { didResolver = DidResolver, verifier = keyManager, allowedAlgorithms, typ, verificationRelationships = ['assertionMethod', 'authentication'] }: JwsVerificationPolicy & VerificationContext
+  ): Promise<string> {
     let jwsHeader: JwsHeaderParams;
     try { // Ensure that the JWS Header can be parsed to a JSON object.
       jwsHeader = Convert.base64Url(jwsHeaderBase64Url).toObject() as JwsHeaderParams;
@@ -117,36 +284,77 @@ export class Crypto {
     if (!jwsHeader.alg || typeof jwsHeader.alg !== 'string') {
       throw new InvalidJws('Signature verification failed: Missing or invalid algorithm ("alg") in JWS header');
     }
+    if (!Object.hasOwn(Crypto.SUPPORTED_ALGORITHMS, jwsHeader.alg) || (allowedAlgorithms && !allowedAlgorithms.includes(jwsHeader.alg))) {
+      throw new InvalidJws(`Signature verification failed: Algorithm "${jwsHeader.alg}" is not allowed`);
+    }
     if (!jwsHeader.kid || typeof jwsHeader.kid !== 'string') {
       throw new InvalidJws('Signature verification failed: Missing or invalid key ID ("kid") in JWS header');
     }
+    if (typ !== undefined && jwsHeader.typ !== typ) {
+      throw new InvalidJws(`Signature verification failed: Expected type ("typ") "${typ}" in JWS header`);
+    }
+    if (jwsHeader.crit !== undefined) { // Reject critical header parameters we do not understand as per RFC 7515, § 4.1.11.
+      const isValidCrit = Array.isArray(jwsHeader.crit) && jwsHeader.crit.length > 0
+        && jwsHeader.crit.every(param => Crypto.#UNDERSTOOD_CRITICAL_PARAMS.includes(param) && param in jwsHeader);
+      if (!isValidCrit) {
+        throw new InvalidJws('Signature verification failed: Unsupported or invalid critical ("crit") parameters in JWS header');
+      }
+    }
+    if (jwsHeader['b64'] !== undefined && jwsHeader['b64'] !== true) {
+      throw new InvalidJws('Signature verification failed: Unencoded payloads ("b64": false) are not supported');
+    }
 
-    const dereferencingResult = await DidResolver.dereference(jwsHeader.kid);
+    // Resolve the signer's DID once, and take both the verification method and its relationships from it.
+    const [ did ] = jwsHeader.kid.split('#');
+    const { didDocument } = await didResolver.resolve(did);
+    const verificationMethod = didDocument ? Crypto.#findVerificationMethod(didDocument, jwsHeader.kid) : undefined;
 
-    if (!isDidVerificationMethod(dereferencingResult.contentStream)) {
+    if (!isDidVerificationMethod(verificationMethod)) {
       throw new InvalidJws('Signature verification failed: Expected key id ("kid") in JWS header to dereference to a DID Document Verification Method');
     }
 
-    const publicKeyJwk = dereferencingResult.contentStream.publicKeyJwk;
+    const publicKeyJwk = verificationMethod.publicKeyJwk;
     if (!isPublicJwk(publicKeyJwk)) { // Ensure that Verification Method includes public key as a JWK.
       throw new Error('Signature verification failed: Expected kid in JWS header to dereference to a DID Document Verification Method with publicKeyJwk')
     }
 
+    const { kty, crv } = Crypto.SUPPORTED_ALGORITHMS[jwsHeader.alg];
+    if (publicKeyJwk.kty !== kty || !('crv' in publicKeyJwk) || publicKeyJwk.crv !== crv) { // Ensure that the header cannot select an algorithm the key was not meant for.
+      throw new InvalidJws(`Signature verification failed: Algorithm "${jwsHeader.alg}" does not match the verification method's key type`);
+    }
+
+    if (verificationRelationships.length > 0) {
+      const relationships = getVerificationRelationshipsById({ didDocument: didDocument!, methodId: jwsHeader.kid });
+
+      if (!relationships.some(relationship => verificationRelationships.includes(relationship))) {
+        throw new InvalidJws(`Signature verification failed: Expected key id ("kid") to be listed under ${verificationRelationships.join(' or ')}`);
+      }
+    }
+
     const signedData = jwsHeaderBase64Url + '.' + payloadBase64Url;
     const signedDataBytes = Convert.string(signedData).toUint8Array();
 
     const signatureBytes = Convert.base64Url(signatureBase64Url).toUint8Array();
 
-    const isValidSignature = await keyManager.verify({ key: publicKeyJwk, data: signedDataBytes, signature: signatureBytes });
+    const isValidSignature = await verifier.verify({ key: publicKeyJwk, data: signedDataBytes, signature: signatureBytes });
 
     if (!isValidSignature) {
       throw new InvalidJws('Signature verification failed: Integrity mismatch');
     }
 
-    const [ did ] = jwsHeader.kid.split('#');
-
     return did;
   }
+
+  /**
+   * Finds the verification method a key ID refers to, matching it like DID URL dereferencing does, i.e. by
+   * its full DID URL or by its fragment alone.
+   */
+  static #findVerificationMethod(didDocument: DidDocument, kid: string): DidVerificationMethod | undefined {
+    const fragment = kid.slice(kid.indexOf('#') + 1);
+    const ids = new Set([kid, fragment, `#${fragment}`]);
+
+    return kid.includes('#') ? didDocument.verificationMethod?.find(method => ids.has(method.id)) : undefined;
+  }
 }
 
 export class InvalidJws extends Error {
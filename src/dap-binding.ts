@@ -0,0 +1,111 @@
+import type { DidDocument, DidResolutionResult } from '@web5/dids';
+import type { DidResolverInterface } from './did-resolver';
+
+import { getServices } from '@web5/dids/utils';
+
+import { Dap } from './dap';
+import { DidResolver } from './did-resolver';
+
+/**
+ * The result of checking whether a DID advertises a DAP back, see {@link DapBinding.verify}
+ */
+export type DapBindingResult = {
+  /** `true` if the DID document lists the DAP, i.e. the DAP and the DID are bound both ways. */
+  bidirectional: boolean
+  /** Where the DID document lists the DAP, if it does. */
+  source?: 'alsoKnownAs' | 'service'
+  /** Why the binding could not be checked, e.g. because the DID could not be resolved. */
+  error?: string
+}
+
+/**
+ * Checks the reverse direction of a DAP registration: a registration proves that a DID claimed a DAP, and
+ * the DID advertises the DAP back by listing it in the `alsoKnownAs` property of its DID document, e.g.
+ *
+ * ```json
+ * { "id": "did:dht:...", "alsoKnownAs": ["@alice/domain.com"] }
+ * ```
+ *
+ * or as the endpoint of a `DAP` service.
+ */
+export class DapBinding {
+  /** The DID service type advertising the DAPs of a DID. */
+  static readonly SERVICE_TYPE = 'DAP';
+
+  /**
+   * Extracts the DAPs advertised by a DID document. Entries that are not DAPs, e.g. other URIs in
+   * `alsoKnownAs`, are ignored.
+   * @param didDocument - The resolved DID document.
+   * @returns The normalized DAPs, with where each was found.
+   */
+  static fromDidDocument(didDocument: DidDocument): { dap: Dap, source: NonNullable<DapBindingResult['source']> }[] {
+    const services = getServices({ didDocument, type: DapBinding.SERVICE_TYPE });
+    const serviceEndpoints = services.flatMap(service => Array.isArray(service.serviceEndpoint) ? service.serviceEndpoint : [service.serviceEndpoint]);
+
+    const candidates = [
+      ...(didDocument.alsoKnownAs ?? []).map(value => ({ value, source: 'alsoKnownAs' as const })),
+      ...serviceEndpoints.map(value => ({ value, source: 'service' as const })),
+    ];
+
+    return candidates.flatMap(({ value, source }) => {
+      if (typeof value !== 'string') {
+        return [];
+      }
+      try {
+        return [{ dap: Dap.parse(value), source }];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Resolves a DID and checks that its DID document advertises the DAP. Never throws: invalid DAPs and
+   * failures to resolve the DID are reported in {@link DapBindingResult.error}.
+   * @param dap - The DAP bound to the DID, e.g. by a verified {@link DapRegistration}.
+   * @param did - The DID to resolve.
+   * @param didResolver - The resolver used to resolve the DID. Defaults to {@link DidResolver}.
+   * @returns A promise that resolves to the binding status.
+   */
+  static async verify(dap: Dap | string, did: string, didResolver: DidResolverInterface = DidResolver): Promise<DapBindingResult> {
+    let expected: Dap;
+    try {
+      expected = typeof dap === 'string' ? Dap.parse(dap) : dap.normalize();
+    } catch (error: any) {
+      return { bidirectional: false, error: error?.message ?? 'Invalid DAP' };
+    }
+
+    let resolution: DidResolutionResult;
+    try {
+      resolution = await didResolver.resolve(did);
+    } catch (error: any) {
+      return { bidirectional: false, error: `Failed to resolve ${did}: ${error?.message ?? 'Unknown error'}` };
+    }
+
+    const { didDocument, didResolutionMetadata } = resolution;
+    if (!didDocument) {
+      return { bidirectional: false, error: `Failed to resolve ${did}: ${didResolutionMetadata.error ?? 'Unknown error'}` };
+    }
+
+    const match = DapBinding.fromDidDocument(didDocument).find(advertised => advertised.dap.equals(expected));
+
+    return match ? { bidirectional: true, source: match.source } : { bidirectional: false };
+  }
+
+  /**
+   * Returns a copy of a DID document listing the DAP in `alsoKnownAs`, to be published by the DID's
+   * controller, e.g. with `DidDht.publish`.
+   * @param didDocument - The current DID document.
+   * @param dap - The DAP to advertise.
+   * @returns The updated DID document. Unchanged if it already advertises the DAP.
+   */
+  static addToDidDocument(didDocument: DidDocument, dap: Dap | string): DidDocument {
+    const normalized = typeof dap === 'string' ? Dap.parse(dap) : dap.normalize();
+
+    if (DapBinding.fromDidDocument(didDocument).some(advertised => advertised.dap.equals(normalized))) {
+      return { ...didDocument };
+    }
+
+    return { ...didDocument, alsoKnownAs: [...(didDocument.alsoKnownAs ?? []), normalized.toString()] };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,207 @@
+import type { DidResolutionResult } from '@web5/dids';
+import type { VerificationContext } from './context';
+import type { DapBindingResult } from './dap-binding';
+import type { DidResolverInterface } from './did-resolver';
+import type { RegistrationResponse } from './registration';
+import type { RegistryRequestOptions, RegistryRetryOptions } from './registry-client';
+
+import { getServices } from '@web5/dids/utils';
+
+import { Dap } from './dap';
+import { DapBinding } from './dap-binding';
+import { DidResolver } from './did-resolver';
+import { DapRegistration } from './registration';
+import { DapRegistryClient, RegistryError } from './registry-client';
+
+/**
+ * A `fetch` compatible function, used to make HTTP requests to DAP registries.
+ */
+export type Fetch = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Options passed to the {@link DapResolver} constructor
+ */
+export type DapResolverOptions = VerificationContext & {
+  /** The function used to make HTTP requests to the registry. Defaults to the global `fetch`. */
+  fetch?: Fetch
+  /**
+   * How long resolving the domain's DID, and each request to the registry, may take, in milliseconds,
+   * before it is aborted. Defaults to 10 seconds.
+   */
+  timeout?: number
+  /** How failed requests to the registry are retried, see {@link RegistryRetryOptions}. */
+  retry?: RegistryRetryOptions
+}
+
+/**
+ * The result of resolving a DAP with {@link DapResolver.resolve}
+ */
+export type DapResolutionResult = {
+  /** The DAP that was resolved. */
+  dap: Dap
+  /** The DID bound to the DAP. */
+  did: string
+  /** The verified registration proving that the DID claimed the DAP's handle. */
+  proof: DapRegistration
+  /** The base URL of the registry that served the registration. */
+  registryUrl: string
+  /** Whether the DID advertises the DAP back, i.e. the DAP and the DID are verified both ways. */
+  binding: DapBindingResult
+}
+
+/**
+ * Resolves a DAP to the DID it is bound to by:
+ *
+ * 1. Resolving the domain's `did:web` DID and locating its `DAPRegistry` service endpoint.
+ * 2. Fetching the handle's registration from the registry.
+ * 3. Verifying the registration's signature and that it matches the requested DAP.
+ * 4. Checking whether the DID advertises the DAP back, see {@link DapBinding}.
+ */
+export class DapResolver {
+  /** The DID service type advertising a domain's DAP registry. */
+  static readonly REGISTRY_SERVICE_TYPE = 'DAPRegistry';
+
+  private readonly didResolver: DidResolverInterface;
+  private readonly context: VerificationContext;
+  private readonly fetch: Fetch;
+  private readonly timeout: number;
+  private readonly retry?: RegistryRetryOptions;
+
+  constructor({ fetch = globalThis.fetch, timeout = 10_000, retry, ...context }: DapResolverOptions = {}) {
+    this.didResolver = context.didResolver ?? DidResolver;
+    this.context = context;
+    this.fetch = fetch;
+    this.timeout = timeout;
+    this.retry = retry;
+  }
+
+  /**
+   * Resolves a DAP to its bound DID and signed proof. The DAP is validated and normalized before resolution.
+   * @param dap - The DAP to resolve, either as a {@link Dap} or a DAP string.
+   * @param options - Aborts the resolution, or overrides {@link DapResolverOptions.timeout} for it.
+   * @returns A promise that resolves to a {@link DapResolutionResult}.
+   * @throws {DapResolutionError} If the registry cannot be located or does not return a valid registration in time.
+   * @throws The abort reason of {@link RegistryRequestOptions.signal} if the resolution is aborted.
+   */
+  async resolve(dap: Dap | string, options?: RegistryRequestOptions): Promise<DapResolutionResult> {
+    dap = Dap.parse(dap.toString()); // Parsing also rejects invalid or confusable DAP instances.
+
+    const registryUrl = await this.resolveRegistryUrl(dap.domain, options);
+    const rawResponse = await this.fetchRegistration(registryUrl, dap.handle, options);
+
+    let proof: DapRegistration;
+    try {
+      proof = await DapRegistration.parse(rawResponse.proof, this.context);
+    } catch (error: any) {
+      throw new DapResolutionError(`Failed to verify registration for ${dap}: ${error?.message ?? 'Unknown error'}`);
+    }
+
+    if (proof.handle !== dap.handle || proof.domain !== dap.domain) { // Ensure the registry did not return a registration for a different DAP.
+      throw new DapResolutionError(`Registry returned a registration for @${proof.handle}/${proof.domain} instead of ${dap}`);
+    }
+
+    const binding = await DapBinding.verify(dap, proof.did, this.didResolver);
+
+    return { dap, did: proof.did, proof, registryUrl, binding };
+  }
+
+  /**
+   * Locates the DAP registry for a domain using the `DAPRegistry` service of the domain's `did:web` DID.
+   * @param domain - The domain whose registry should be located.
+   * @param options - Aborts the DID resolution, or overrides {@link DapResolverOptions.timeout} for it.
+   * @returns A promise that resolves to the registry's base URL.
+   * @throws {DapResolutionError} If the domain's DID cannot be resolved in time or has no `DAPRegistry` service
+   * with an absolute HTTPS URL endpoint.
+   * @throws The abort reason of {@link RegistryRequestOptions.signal} if the resolution is aborted.
+   */
+  async resolveRegistryUrl(domain: string, { signal, timeout = this.timeout }: RegistryRequestOptions = {}): Promise<string> {
+    const domainDid = `did:web:${domain}`;
+
+    const timeoutSignal = AbortSignal.timeout(timeout);
+    let resolution: DidResolutionResult;
+    try { // DID resolvers do not accept a signal, so stop waiting for them instead.
+      resolution = await DapResolver.#untilAborted(this.didResolver.resolve(domainDid), signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal);
+    } catch (error) {
+      signal?.throwIfAborted();
+      if (timeoutSignal.aborted) {
+        throw new DapResolutionError(`Failed to resolve ${domainDid}: Did not respond within ${timeout}ms`);
+      }
+      throw error;
+    }
+
+    const { didDocument, didResolutionMetadata } = resolution;
+
+    if (!didDocument) {
+      throw new DapResolutionError(`Failed to resolve ${domainDid}: ${didResolutionMetadata.error ?? 'Unknown error'}`);
+    }
+
+    const [ service ] = getServices({ didDocument, type: DapResolver.REGISTRY_SERVICE_TYPE });
+    const serviceEndpoint = Array.isArray(service?.serviceEndpoint) ? service.serviceEndpoint[0] : service?.serviceEndpoint;
+
+    if (typeof serviceEndpoint !== 'string') {
+      throw new DapResolutionError(`Expected ${domainDid} to have a ${DapResolver.REGISTRY_SERVICE_TYPE} service with a URL endpoint`);
+    }
+
+    let registryUrl: URL;
+    try {
+      registryUrl = new URL(serviceEndpoint);
+    } catch {
+      throw new DapResolutionError(`Expected ${DapResolver.REGISTRY_SERVICE_TYPE} service endpoint of ${domainDid} to be an absolute URL but got "${serviceEndpoint}"`);
+    }
+
+    if (registryUrl.protocol !== 'https:') {
+      throw new DapResolutionError(`Expected ${DapResolver.REGISTRY_SERVICE_TYPE} service endpoint of ${domainDid} to use HTTPS but got "${serviceEndpoint}"`);
+    }
+
+    return registryUrl.href.replace(/\/+$/, '');
+  }
+
+  /**
+   * Fetches the registration of a handle through {@link DapRegistryClient}, so that it is subject to the same
+   * timeouts and retries as other registry requests.
+   */
+  private async fetchRegistration(registryUrl: string, handle: string, options?: RegistryRequestOptions): Promise<RegistrationResponse> {
+    const client = new DapRegistryClient(registryUrl, { fetch: this.fetch, timeout: this.timeout, retry: this.retry });
+
+    try {
+      return await client.getRegistration(handle, options);
+    } catch (error: any) {
+      options?.signal?.throwIfAborted();
+      if (!(error instanceof RegistryError)) {
+        throw error;
+      }
+      if (error.status !== undefined && error.status >= 400) {
+        throw new DapResolutionError(`Registry at ${registryUrl} responded with status ${error.status} for handle "${handle}": ${error.message}`);
+      }
+      throw new DapResolutionError(`Failed to fetch registration for handle "${handle}" from ${registryUrl}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Waits for a promise, unless the signal is aborted first.
+   * @throws The abort reason of the signal if it is aborted first.
+   */
+  static async #untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    signal.throwIfAborted();
+
+    return await new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+}
+
+/**
+ * Error thrown when a DAP cannot be resolved.
+ */
+export class DapResolutionError extends Error {
+  /**
+   * Creates a new DapResolutionError error.
+   * @param message - Optional custom error message. Defaults to 'DAP resolution failed'.
+   */
+  constructor(message?: string) {
+    super(message ?? 'DAP resolution failed');
+    this.name = 'DapResolutionError';
+  }
+}
\ No newline at end of file
@@ -9,9 +9,30 @@ export class Dap {
   /** The separator character between the handle and domain in a DAP. */
   static readonly SEPARATOR = '/';
 
+  /** The maximum number of characters in a handle. */
+  static readonly HANDLE_MAX_LENGTH = 64;
+
+  /** The maximum number of characters in a domain. */
+  static readonly DOMAIN_MAX_LENGTH = 253;
+
   /** Regular expression for validating and parsing DAP strings. */
   private static readonly DAP_REGEX = new RegExp(`^${Dap.PREFIX}([^${Dap.PREFIX}${Dap.SEPARATOR}]+)${Dap.SEPARATOR}([^${Dap.PREFIX}${Dap.SEPARATOR}]+)$`);
 
+  /** Regular expression for validating handles: letters, digits, marks, `.`, `_` and `-`. */
+  private static readonly HANDLE_REGEX = /^[\p{L}\p{M}\p{N}._-]+$/u;
+
+  /** Regular expression for validating a single hostname label as per RFC 1123. */
+  private static readonly DOMAIN_LABEL_REGEX = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+  /** Characters that are never part of a hostname and would otherwise be silently dropped by IDNA conversion. */
+  private static readonly DOMAIN_FORBIDDEN_REGEX = /[\s/\\?#@:%[\]]/u;
+
+  /** Scripts whose letters are commonly confused with each other. Mixing any two of them is rejected. */
+  private static readonly CONFUSABLE_SCRIPTS = [/\p{Script=Latin}/u, /\p{Script=Cyrillic}/u, /\p{Script=Greek}/u, /\p{Script=Armenian}/u, /\p{Script=Cherokee}/u];
+
+  /** Lowercase Cyrillic and Greek letters that are visually indistinguishable from Latin letters. */
+  private static readonly LATIN_LOOKALIKES = new Set([...'асԁеһіјӏорԛѕѵԝѡхуүαικνορτυχ']);
+
   /**
    * Creates a new DAP instance.
    * @param handle - The local handle part of the DAP.
@@ -31,21 +52,194 @@ export class Dap {
   }
 
   /**
-   * Parses a DAP string and creates a new DAP instance.
+   * Returns the canonical form of this DAP, see {@link Dap.normalizeHandle} and {@link Dap.normalizeDomain}.
+   * @returns A new, normalized DAP instance.
+   */
+  normalize(): Dap {
+    return new Dap(Dap.normalizeHandle(this.handle), Dap.normalizeDomain(this.domain));
+  }
+
+  /**
+   * Checks whether two DAPs are equivalent once normalized, e.g. `@Alice/Example.com` and `@alice/example.com`.
+   * @param other - The DAP to compare with, either as a {@link Dap} or a DAP string.
+   * @returns `true` if both DAPs normalize to the same handle and domain.
+   */
+  equals(other: Dap | string): boolean {
+    const otherDap = typeof other === 'string' ? Dap.parse(other) : other.normalize();
+    const thisDap = this.normalize();
+
+    return thisDap.handle === otherDap.handle && thisDap.domain === otherDap.domain;
+  }
+
+  /**
+   * Parses a DAP string and creates a new, normalized DAP instance.
    * @param dap - The DAP string to parse.
    * @returns A new DAP instance.
    * @throws {InvalidDap} If the provided string is not a valid DAP.
    */
   static parse(dap: string): Dap {
-    const match = dap.match(Dap.DAP_REGEX);
+    const match = dap.trim().match(Dap.DAP_REGEX);
     if (!match) {
       throw new InvalidDap();
     }
-    
-    const [, handle, domain] = match;
-    
+
+    const handle = Dap.normalizeHandle(match[1]);
+    const domain = Dap.normalizeDomain(match[2]);
+
+    if (!Dap.isValidHandle(handle)) {
+      throw new InvalidDap(`Invalid DAP: Handle must be 1 to ${Dap.HANDLE_MAX_LENGTH} letters, digits, ".", "_" or "-"`);
+    }
+    if (!Dap.isValidDomain(domain)) {
+      throw new InvalidDap('Invalid DAP: Domain must be a valid hostname');
+    }
+    if (Dap.isConfusable(handle) || Dap.isConfusableDomain(domain)) {
+      throw new InvalidDap('Invalid DAP: Contains characters that can be confused with characters from another script');
+    }
+
     return new Dap(handle, domain);
   }
+
+  /**
+   * Normalizes a handle by trimming whitespace, applying Unicode NFC normalization and case folding.
+   * @param handle - The handle to normalize.
+   * @returns The canonical handle.
+   */
+  static normalizeHandle(handle: string): string {
+    return handle.trim().normalize('NFC').toLowerCase();
+  }
+
+  /**
+   * Normalizes a domain by trimming whitespace, lowercasing and converting internationalized labels to
+   * punycode as per IDNA, e.g. `Bücher.example` becomes `xn--bcher-kva.example`.
+   * @param domain - The domain to normalize.
+   * @returns The canonical domain, or the trimmed and lowercased input if it is not a convertible hostname.
+   */
+  static normalizeDomain(domain: string): string {
+    const trimmed = domain.trim().normalize('NFC').toLowerCase();
+    if (trimmed.length === 0 || Dap.DOMAIN_FORBIDDEN_REGEX.test(trimmed)) {
+      return trimmed;
+    }
+
+    try {
+      return new URL(`https://${trimmed}`).hostname;
+    } catch {
+      return trimmed;
+    }
+  }
+
+  /**
+   * Checks whether a handle or domain could be used to spoof another, i.e. it mixes letters from
+   * {@link Dap.CONFUSABLE_SCRIPTS} (`pаypal` with a Cyrillic `а`), or consists solely of Cyrillic or Greek
+   * letters that look like Latin letters (`рау` in Cyrillic).
+   * @param value - The normalized handle or Unicode domain to check.
+   * @returns `true` if the value is confusable.
+   */
+  static isConfusable(value: string): boolean {
+    for (const part of value.split('.')) {
+      const letters = [...part].filter(char => /\p{L}/u.test(char));
+      const scripts = Dap.CONFUSABLE_SCRIPTS.filter(script => letters.some(char => script.test(char)));
+
+      if (scripts.length > 1) {
+        return true;
+      }
+
+      const isLatin = letters.some(char => Dap.CONFUSABLE_SCRIPTS[0].test(char));
+      if (!isLatin && letters.length > 0 && letters.every(char => Dap.LATIN_LOOKALIKES.has(char))) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Checks whether a domain could be used to spoof another, see {@link Dap.isConfusable}. Punycode labels
+   * are converted back to Unicode first, so that `xn--exmple-4nf.com` is checked as `exаmple.com`.
+   * @param domain - The domain to check, in Unicode or punycode.
+   * @returns `true` if the domain is confusable.
+   */
+  static isConfusableDomain(domain: string): boolean {
+    const unicodeDomain = domain.normalize('NFC').toLowerCase().split('.')
+      .map(label => label.startsWith('xn--') ? Dap.#decodePunycode(label.slice(4)) ?? label : label)
+      .join('.');
+
+    return Dap.isConfusable(unicodeDomain);
+  }
+
+  /**
+   * Checks whether a string is a valid DAP handle.
+   * @param handle - The handle to check.
+   * @returns `true` if the handle consists of 1 to {@link Dap.HANDLE_MAX_LENGTH} letters, digits, `.`, `_` or `-`.
+   */
+  static isValidHandle(handle: string): boolean {
+    return typeof handle === 'string'
+      && [...handle].length <= Dap.HANDLE_MAX_LENGTH
+      && Dap.HANDLE_REGEX.test(handle);
+  }
+
+  /**
+   * Checks whether a string is a valid DAP domain.
+   * @param domain - The domain to check.
+   * @returns `true` if the domain is a hostname made up of valid labels and at most {@link Dap.DOMAIN_MAX_LENGTH} characters.
+   */
+  static isValidDomain(domain: string): boolean {
+    return typeof domain === 'string'
+      && domain.length <= Dap.DOMAIN_MAX_LENGTH
+      && domain.split('.').every(label => Dap.DOMAIN_LABEL_REGEX.test(label));
+  }
+
+  /**
+   * Decodes a punycode label without its `xn--` prefix as per RFC 3492, as the platform-neutral
+   * counterpart of Node's `url.domainToUnicode`.
+   * @returns The Unicode label, or `undefined` if the label is not valid punycode.
+   */
+  static #decodePunycode(label: string): string | undefined {
+    const base = 36, tMin = 1, tMax = 26;
+    const adapt = (delta: number, numPoints: number, isFirst: boolean) => {
+      delta = isFirst ? Math.floor(delta / 700) : delta >> 1;
+      delta += Math.floor(delta / numPoints);
+
+      let k = 0;
+      for (; delta > ((base - tMin) * tMax) >> 1; k += base) {
+        delta = Math.floor(delta / (base - tMin));
+      }
+
+      return k + Math.floor((base - tMin + 1) * delta / (delta + 38));
+    };
+
+    const delimiterIndex = Math.max(label.lastIndexOf('-'), 0);
+    const output = [...label.slice(0, delimiterIndex)].map(char => char.codePointAt(0)!);
+
+    let n = 128, bias = 72, i = 0;
+    for (let index = delimiterIndex > 0 ? delimiterIndex + 1 : 0; index < label.length;) {
+      const previousI = i;
+      for (let weight = 1, k = base; ; k += base) {
+        const char = label[index++];
+        const digit = char === undefined ? -1 : 'abcdefghijklmnopqrstuvwxyz0123456789'.indexOf(char);
+        if (digit === -1) {
+          return undefined;
+        }
+
+        i += digit * weight;
+        const threshold = k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias;
+        if (digit < threshold) {
+          break;
+        }
+        weight *= base - threshold;
+      }
+
+      bias = adapt(i - previousI, output.length + 1, previousI === 0);
+      n += Math.floor(i / (output.length + 1));
+      i %= output.length + 1;
+      if (n > 0x10ffff) {
+        return undefined;
+      }
+
+      output.splice(i++, 0, n);
+    }
+
+    return String.fromCodePoint(...output);
+  }
 }
 
 /**
@@ -0,0 +1,250 @@
+import type { BearerDid } from '@web5/dids';
+import type { VerificationContext } from './context';
+import type { Fetch } from './dap-resolver';
+import type { VcJwtClaims } from './vc-jwt';
+
+import { Convert } from '@web5/common';
+
+import { Crypto } from './crypto';
+import { CREDENTIALS_CONTEXT, toDateTime, verifyVcJwt } from './vc-jwt';
+
+/**
+ * A DID Configuration resource, served at `/.well-known/did-configuration.json` to link DIDs to a domain.
+ * @see {@link https://identity.foundation/.well-known/resources/did-configuration/ | DIF Well Known DID Configuration}
+ */
+export interface DidConfigurationDocument {
+  '@context': string;
+
+  /** Domain Linkage Credentials in JWT format, one per linked DID. */
+  linked_dids: string[];
+}
+
+/**
+ * The claims of a Domain Linkage Credential in JWT format.
+ */
+export interface DomainLinkageCredentialClaims extends VcJwtClaims {
+  /** The time at which the credential expires, in seconds since the epoch. */
+  exp: number;
+
+  vc: VcJwtClaims['vc'] & {
+    expirationDate: string;
+    credentialSubject: {
+      /** The linked DID. */
+      id: string;
+
+      /** The origin of the domain the DID is linked to, e.g. `https://domain.com`. */
+      origin: string;
+    };
+  };
+}
+
+/**
+ * Options passed to {@link DidConfiguration.createCredential} and {@link DidConfiguration.create}
+ */
+export type DomainLinkageCredentialOptions = {
+  /** The origin of the domain to link, e.g. `https://domain.com`, or the domain itself. */
+  origin: string
+  /** The time at which the credential expires. */
+  expiresAt: Date
+  /** The time at which the credential is issued. Defaults to now. */
+  issuedAt?: Date
+}
+
+/**
+ * Options passed to {@link DidConfiguration.fetchLinkedDids} and {@link DidConfiguration.verifyLinkage}
+ */
+export type DidConfigurationFetchOptions = VerificationContext & {
+  /** The function used to fetch the DID Configuration. Defaults to the global `fetch`. */
+  fetch?: Fetch
+}
+
+/**
+ * Generates and verifies DIF Well Known DID Configurations, proving that the controller of a DID also
+ * controls a domain, e.g. that the DID counter-signing a registry's registrations operates the domain of
+ * the DAPs it serves.
+ *
+ * Only Domain Linkage Credentials in JWT format are supported.
+ */
+export class DidConfiguration {
+  /** The path at which a domain serves its DID Configuration. */
+  static readonly WELL_KNOWN_PATH = '/.well-known/did-configuration.json';
+
+  /** The JSON-LD context of DID Configurations and Domain Linkage Credentials. */
+  static readonly CONTEXT = 'https://identity.foundation/.well-known/did-configuration/v1';
+
+  /**
+   * Creates a Domain Linkage Credential linking a DID to a domain.
+   * @param did - The DID to link, which signs the credential.
+   * @param options - The domain to link and the validity of the credential.
+   * @returns A promise that resolves to the credential as a JWT.
+   */
+  static async createCredential(did: BearerDid, { origin, expiresAt, issuedAt = new Date() }: DomainLinkageCredentialOptions): Promise<string> {
+    const claims: DomainLinkageCredentialClaims = {
+      iss: did.uri,
+      sub: did.uri,
+      nbf: Math.floor(issuedAt.getTime() / 1000),
+      exp: Math.floor(expiresAt.getTime() / 1000),
+      vc: {
+        '@context': [CREDENTIALS_CONTEXT, DidConfiguration.CONTEXT],
+        type: ['VerifiableCredential', 'DomainLinkageCredential'],
+        issuer: did.uri,
+        issuanceDate: toDateTime(issuedAt),
+        expirationDate: toDateTime(expiresAt),
+        credentialSubject: { id: did.uri, origin: DidConfiguration.#toOrigin(origin) },
+      },
+    };
+
+    return await Crypto.sign({ did, payload: Convert.object(claims).toUint8Array(), detached: false, typ: 'JWT' });
+  }
+
+  /**
+   * Creates the DID Configuration of a domain.
+   * @param dids - The DIDs to link to the domain.
+   * @param options - The domain to link and the validity of the credentials.
+   * @returns A promise that resolves to the document to serve at {@link DidConfiguration.WELL_KNOWN_PATH}.
+   */
+  static async create(dids: BearerDid[], options: DomainLinkageCredentialOptions): Promise<DidConfigurationDocument> {
+    const linkedDids: string[] = [];
+    for (const did of dids) {
+      linkedDids.push(await DidConfiguration.createCredential(did, options));
+    }
+
+    return { '@context': DidConfiguration.CONTEXT, linked_dids: linkedDids };
+  }
+
+  /**
+   * Verifies a Domain Linkage Credential.
+   * @param credential - The credential as a JWT.
+   * @param origin - The origin the credential must link to, or the domain itself.
+   * @param context - The dependencies used when verifying the credential's signature.
+   * @returns A promise that resolves to the linked DID.
+   * @throws {InvalidDomainLinkage} If the credential is malformed, expired, not signed by the linked DID, or for another origin.
+   */
+  static async verifyCredential(credential: string, origin: string, context: VerificationContext = {}): Promise<string> {
+    const { signer: signerDid, claims } = await verifyVcJwt<DomainLinkageCredentialClaims>(credential, context, reason => new InvalidDomainLinkage(`Invalid Domain Linkage Credential: ${reason}`));
+
+    const { vc } = claims;
+    if (!Array.isArray(vc['@context']) || !vc['@context'].includes(CREDENTIALS_CONTEXT) || !vc['@context'].includes(DidConfiguration.CONTEXT)) {
+      throw new InvalidDomainLinkage('Invalid Domain Linkage Credential: Missing required "@context"');
+    }
+    if (!Array.isArray(vc.type) || !vc.type.includes('DomainLinkageCredential')) {
+      throw new InvalidDomainLinkage('Invalid Domain Linkage Credential: Expected type "DomainLinkageCredential"');
+    }
+
+    const isLinkedDidConsistent = [claims.iss, claims.sub, vc.issuer, vc.credentialSubject.id].every(did => did === signerDid);
+    if (!isLinkedDidConsistent) { // The credential must be self-issued by the DID it links.
+      throw new InvalidDomainLinkage(`Invalid Domain Linkage Credential: Expected issuer and subject to be the signer ${signerDid}`);
+    }
+
+    if (vc.credentialSubject.origin !== DidConfiguration.#toOrigin(origin)) {
+      throw new InvalidDomainLinkage(`Invalid Domain Linkage Credential: Expected origin ${DidConfiguration.#toOrigin(origin)}`);
+    }
+
+    const now = Math.floor((context.clock?.() ?? new Date()).getTime() / 1000);
+    if (!Number.isInteger(claims.exp) || (claims.nbf !== undefined && !Number.isInteger(claims.nbf))) {
+      throw new InvalidDomainLinkage('Invalid Domain Linkage Credential: Expected integer "exp" and "nbf" claims');
+    }
+    if (now >= claims.exp || (claims.nbf !== undefined && now < claims.nbf)) {
+      throw new InvalidDomainLinkage('Invalid Domain Linkage Credential: Expired or not yet valid');
+    }
+
+    return signerDid;
+  }
+
+  /**
+   * Verifies the credentials of a DID Configuration. Invalid credentials are ignored, as a domain may
+   * link DIDs using methods or formats the caller does not support.
+   * @param document - The DID Configuration, as JSON or parsed.
+   * @param origin - The origin the document was fetched from, or the domain itself.
+   * @param context - The dependencies used when verifying the credentials' signatures.
+   * @returns A promise that resolves to the DIDs linked to the domain.
+   * @throws {InvalidDomainLinkage} If the document is malformed.
+   */
+  static async verify(document: DidConfigurationDocument | string, origin: string, context: VerificationContext = {}): Promise<string[]> {
+    let parsed: DidConfigurationDocument;
+    try {
+      parsed = typeof document === 'string' ? JSON.parse(document) : document;
+    } catch (error: any) {
+      throw new InvalidDomainLinkage(`Invalid DID Configuration: ${error?.message ?? 'Unknown error'}`);
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || parsed['@context'] !== DidConfiguration.CONTEXT || !Array.isArray(parsed.linked_dids)) {
+      throw new InvalidDomainLinkage(`Invalid DID Configuration: Expected "@context" ${DidConfiguration.CONTEXT} and a "linked_dids" array`);
+    }
+
+    const linkedDids = new Set<string>();
+    for (const credential of parsed.linked_dids) {
+      if (typeof credential !== 'string') {
+        continue; // JSON-LD credentials are not supported.
+      }
+      try {
+        linkedDids.add(await DidConfiguration.verifyCredential(credential, origin, context));
+      } catch {
+        continue;
+      }
+    }
+
+    return [...linkedDids];
+  }
+
+  /**
+   * Fetches and verifies the DID Configuration of a domain.
+   * @param domain - The domain, e.g. the domain of a DAP.
+   * @param options - The function used to fetch the document and the dependencies used when verifying it.
+   * @returns A promise that resolves to the DIDs linked to the domain.
+   * @throws {InvalidDomainLinkage} If the document cannot be fetched or is malformed.
+   */
+  static async fetchLinkedDids(domain: string, { fetch = globalThis.fetch, ...context }: DidConfigurationFetchOptions = {}): Promise<string[]> {
+    const origin = DidConfiguration.#toOrigin(domain);
+    const url = `${origin}${DidConfiguration.WELL_KNOWN_PATH}`;
+
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error: any) {
+      throw new InvalidDomainLinkage(`Failed to fetch ${url}: ${error?.message ?? 'Unknown error'}`);
+    }
+
+    if (!response.ok) {
+      throw new InvalidDomainLinkage(`Failed to fetch ${url}: Responded with status ${response.status}`);
+    }
+
+    return await DidConfiguration.verify(await response.text(), origin, context);
+  }
+
+  /**
+   * Checks that a DID is linked to a domain by the domain's DID Configuration.
+   * @param domain - The domain, e.g. the domain of a DAP.
+   * @param did - The DID that must be linked, e.g. the DID operating a registry.
+   * @param options - The function used to fetch the document and the dependencies used when verifying it.
+   * @throws {InvalidDomainLinkage} If the DID is not linked to the domain.
+   */
+  static async verifyLinkage(domain: string, did: string, options: DidConfigurationFetchOptions = {}): Promise<void> {
+    const linkedDids = await DidConfiguration.fetchLinkedDids(domain, options);
+
+    if (!linkedDids.includes(did)) {
+      throw new InvalidDomainLinkage(`Expected ${did} to be linked to ${domain} by its DID Configuration`);
+    }
+  }
+
+  /**
+   * Returns the origin of a URL, or the HTTPS origin of a bare domain.
+   */
+  static #toOrigin(originOrDomain: string): string {
+    return new URL(originOrDomain.includes('://') ? originOrDomain : `https://${originOrDomain}`).origin;
+  }
+}
+
+/**
+ * Error thrown when a DID cannot be verified to be linked to a domain.
+ */
+export class InvalidDomainLinkage extends Error {
+  /**
+   * Creates a new InvalidDomainLinkage error.
+   * @param message - Optional custom error message. Defaults to 'Invalid domain linkage'.
+   */
+  constructor(message?: string) {
+    super(message ?? 'Invalid domain linkage');
+    this.name = 'InvalidDomainLinkage';
+  }
+}
\ No newline at end of file
@@ -1,5 +1,249 @@
-import { DidDht, DidJwk, DidWeb, UniversalResolver } from '@web5/dids';
+import type { DidMethodResolver, DidResolutionOptions, DidResolutionResult, DidResolver as Web5DidResolver, DidUrlDereferencer } from '@web5/dids';
+
+import { DidDht, DidErrorCode, DidJwk, DidWeb, UniversalResolver } from '@web5/dids';
+
+/**
+ * Anything capable of resolving DIDs and dereferencing DID URLs, such as {@link DidResolver}.
+ */
+export type DidResolverInterface = Web5DidResolver & DidUrlDereferencer;
 
 export const DidResolver = new UniversalResolver({
   didResolvers: [DidDht, DidJwk, DidWeb]
-})
\ No newline at end of file
+})
+
+/**
+ * A DID resolution result stored by {@link CachingDidResolver}, along with when it expires.
+ */
+export type CachedDidResolution = {
+  /** The cached resolution result. */
+  result: DidResolutionResult
+  /** The time at which the entry expires, in milliseconds since the Unix epoch. */
+  expiresAt: number
+}
+
+/**
+ * Persistent storage for {@link CachingDidResolver}, consulted when an entry is not in memory.
+ */
+export interface DidResolutionStore {
+  /** Returns the cached resolution of a DID, if any. */
+  get(didUri: string): Promise<CachedDidResolution | undefined>;
+
+  /** Stores the resolution of a DID. */
+  set(didUri: string, entry: CachedDidResolution): Promise<void>;
+
+  /** Removes the resolution of a DID. */
+  delete(didUri: string): Promise<void>;
+}
+
+/**
+ * Events reported by {@link CachingDidResolver} to {@link CachingDidResolverOptions.onCacheEvent}.
+ */
+export type DidCacheEvent = 'hit' | 'negativeHit' | 'miss' | 'eviction';
+
+/**
+ * Counters reported by {@link CachingDidResolver.stats}.
+ */
+export type DidCacheStats = {
+  /** Resolutions served from the cache. */
+  hits: number
+  /** Failed resolutions served from the cache. */
+  negativeHits: number
+  /** Resolutions that had to be performed by the underlying DID method. */
+  misses: number
+  /** Entries removed from memory to stay within {@link CachingDidResolverOptions.maxEntries}. */
+  evictions: number
+  /** Entries currently held in memory. */
+  size: number
+}
+
+/**
+ * Options passed to the {@link CachingDidResolver} constructor
+ */
+export type CachingDidResolverOptions = {
+  /** The DID methods to support. Defaults to the methods supported by {@link DidResolver}. */
+  didResolvers?: DidMethodResolver[]
+  /** The maximum number of entries kept in memory. The least recently used entry is evicted first. Defaults to 1000. */
+  maxEntries?: number
+  /** How long successful resolutions are cached, in milliseconds. Defaults to 15 minutes. */
+  ttl?: number
+  /** How long failed resolutions are cached, in milliseconds. Defaults to 1 minute. Set to 0 to disable negative caching. */
+  negativeTtl?: number
+  /** Persistent storage consulted on in-memory cache misses. */
+  store?: DidResolutionStore
+  /** Called for every cache event, e.g. to export metrics. */
+  onCacheEvent?: (event: DidCacheEvent, didUri: string) => void
+  /** Returns the current time in milliseconds. Defaults to `Date.now`. */
+  now?: () => number
+}
+
+/**
+ * A {@link UniversalResolver} that caches resolution results in an in-memory LRU cache, and optionally
+ * in a persistent {@link DidResolutionStore}.
+ *
+ * Successful results are cached for {@link CachingDidResolverOptions.ttl}, or until the `nextUpdate`
+ * reported in the DID document metadata if that is sooner. Failed resolutions are cached for
+ * {@link CachingDidResolverOptions.negativeTtl}, except for internal errors which are likely transient.
+ *
+ * Dereferencing DID URLs resolves through the cache as well, so it can be used wherever {@link DidResolver} is.
+ */
+export class CachingDidResolver extends UniversalResolver {
+  private readonly entries = new Map<string, CachedDidResolution>();
+  private readonly counters = { hits: 0, negativeHits: 0, misses: 0, evictions: 0 };
+  private readonly maxEntries: number;
+  private readonly ttl: number;
+  private readonly negativeTtl: number;
+  private readonly store?: DidResolutionStore;
+  private readonly onCacheEvent?: (event: DidCacheEvent, didUri: string) => void;
+  private readonly now: () => number;
+
+  constructor({
+    didResolvers = [DidDht, DidJwk, DidWeb],
+    maxEntries = 1000,
+    ttl = 15 * 60 * 1000,
+    negativeTtl = 60 * 1000,
+    store,
+    onCacheEvent,
+    now = Date.now,
+  }: CachingDidResolverOptions = {}) {
+    super({ didResolvers });
+    this.maxEntries = maxEntries;
+    this.ttl = ttl;
+    this.negativeTtl = negativeTtl;
+    this.store = store;
+    this.onCacheEvent = onCacheEvent;
+    this.now = now;
+  }
+
+  /**
+   * Resolves a DID, serving the result from the cache if a fresh entry exists.
+   * @param didUri - The DID to resolve.
+   * @param options - Options passed to the DID method when the DID is not cached.
+   * @returns A promise that resolves to the DID Resolution Result.
+   */
+  async resolve(didUri: string, options?: DidResolutionOptions): Promise<DidResolutionResult> {
+    const cached = await this.getEntry(didUri);
+    if (cached) {
+      const event = cached.result.didResolutionMetadata.error ? 'negativeHit' : 'hit';
+      this.counters[event === 'hit' ? 'hits' : 'negativeHits']++;
+      this.onCacheEvent?.(event, didUri);
+      return cached.result;
+    }
+
+    this.counters.misses++;
+    this.onCacheEvent?.('miss', didUri);
+
+    const result = await super.resolve(didUri, options);
+
+    const expiresAt = this.computeExpiry(result);
+    if (expiresAt > this.now()) {
+      const entry = { result, expiresAt };
+      this.setEntry(didUri, entry);
+      await this.store?.set(didUri, entry);
+    }
+
+    return result;
+  }
+
+  /**
+   * Removes a DID from the cache, e.g. after it is known to have been updated.
+   * @param didUri - The DID to remove.
+   */
+  async invalidate(didUri: string): Promise<void> {
+    this.entries.delete(didUri);
+    await this.store?.delete(didUri);
+  }
+
+  /**
+   * Returns the cache counters accumulated since the resolver was created.
+   */
+  stats(): DidCacheStats {
+    return { ...this.counters, size: this.entries.size };
+  }
+
+  /**
+   * Returns a fresh cache entry from memory or the persistent store, refreshing its recency.
+   */
+  private async getEntry(didUri: string): Promise<CachedDidResolution | undefined> {
+    let entry = this.entries.get(didUri) ?? await this.store?.get(didUri);
+
+    if (entry && entry.expiresAt <= this.now()) {
+      await this.invalidate(didUri);
+      entry = undefined;
+    }
+
+    if (entry) {
+      this.setEntry(didUri, entry);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Stores an entry in memory as the most recently used, evicting the least recently used entries if full.
+   */
+  private setEntry(didUri: string, entry: CachedDidResolution): void {
+    this.entries.delete(didUri); // Maps iterate in insertion order, so re-inserting marks the entry as most recently used.
+    this.entries.set(didUri, entry);
+
+    for (const leastRecentlyUsed of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(leastRecentlyUsed);
+      this.counters.evictions++;
+      this.onCacheEvent?.('eviction', leastRecentlyUsed);
+    }
+  }
+
+  /**
+   * Computes when a resolution result should expire, honouring the DID document's `nextUpdate` metadata.
+   */
+  private computeExpiry(result: DidResolutionResult): number {
+    const now = this.now();
+    const { error } = result.didResolutionMetadata;
+
+    if (error) {
+      return error === DidErrorCode.InternalError ? now : now + this.negativeTtl;
+    }
+
+    const expiresAt = now + this.ttl;
+    const nextUpdate = Date.parse(result.didDocumentMetadata.nextUpdate ?? '');
+
+    return isNaN(nextUpdate) ? expiresAt : Math.min(expiresAt, nextUpdate);
+  }
+}
+
+/**
+ * A resolver that serves previously captured DID resolution results without network access,
+ * e.g. for offline verification of proof bundles or for test fixtures.
+ *
+ * DIDs without a captured result resolve to a `notFound` error.
+ */
+export class StaticDidResolver extends UniversalResolver {
+  private readonly results: Map<string, DidResolutionResult>;
+
+  /**
+   * Creates a new StaticDidResolver.
+   * @param results - The resolution results to serve, keyed by DID.
+   */
+  constructor(results: Record<string, DidResolutionResult>) {
+    super({ didResolvers: [] });
+    this.results = new Map(Object.entries(results));
+  }
+
+  /**
+   * Returns the captured resolution result of a DID.
+   * @param didUri - The DID to resolve.
+   * @returns A promise that resolves to the captured DID Resolution Result.
+   */
+  async resolve(didUri: string): Promise<DidResolutionResult> {
+    return this.results.get(didUri) ?? {
+      didDocument: null,
+      didDocumentMetadata: {},
+      didResolutionMetadata: {
+        error: DidErrorCode.NotFound,
+        errorMessage: `No resolution result available for ${didUri}`,
+      },
+    };
+  }
+}
\ No newline at end of file
@@ -1,7 +1,19 @@
+export * from './context';
 export * from './crypto';
 export * from './dap';
+export * from './dap-binding';
+export * from './dap-resolver';
+export * from './did-configuration';
 export * from './did-resolver';
+export * from './money-address';
+export * from './money-address-validators';
+export * from './ownership-credential';
+export * from './portable-did';
+export * from './proof-bundle';
 export * from './registration';
 export * from './registration-id';
 export * from './registry-client';
+export * from './registry-server';
+export * from './request-auth';
+export * from './schemas';
 export * from './urn';
\ No newline at end of file
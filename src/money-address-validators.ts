@@ -0,0 +1,407 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { Convert } from '@web5/common';
+
+import { Dap } from './dap';
+import { InvalidMoneyAddress, MoneyAddress } from './money-address';
+import { Urn } from './urn';
+
+/**
+ * Why an address failed validation.
+ *
+ * - `malformed`: The address does not have the format expected for the currency and protocol.
+ * - `checksum`: The address has the right format but its checksum does not match, e.g. because of a typo.
+ * - `unsupported`: No validator is registered for the currency and protocol.
+ */
+export type MoneyAddressValidationReason = 'malformed' | 'checksum' | 'unsupported';
+
+/**
+ * The result of validating an address with a {@link MoneyAddressValidator}
+ */
+export type AddressValidationResult =
+  | { valid: true, address: string }
+  | { valid: false, reason: Exclude<MoneyAddressValidationReason, 'unsupported'>, message: string };
+
+/**
+ * Validates and normalizes the addresses of one currency and protocol, i.e. of money addresses of the form
+ * `urn:<currency>:<protocol>:<address>`.
+ */
+export interface MoneyAddressValidator {
+  /** The currency, i.e. the URN's NID, e.g. `btc`. */
+  currency: string;
+
+  /** The protocol, i.e. the first segment of the URN's NSS, e.g. `addr`. */
+  protocol: string;
+
+  /**
+   * Validates an address.
+   * @returns The normalized address if it is valid, or why it is not.
+   */
+  validate(address: string): AddressValidationResult;
+}
+
+/**
+ * Options passed to {@link MoneyAddressValidatorRegistry.validate}
+ */
+export type MoneyAddressValidateOptions = {
+  /** If `true`, money addresses without a registered validator are rejected. Defaults to `false`, accepting them as is. */
+  requireValidator?: boolean
+}
+
+/**
+ * Validators for money addresses, keyed by currency and protocol. Use {@link MoneyAddressValidators} for the
+ * built-in validators, and register custom ones with {@link MoneyAddressValidatorRegistry.register}, e.g.
+ *
+ * ```ts
+ * MoneyAddressValidators.register(createEvmAddressValidator('usdt', 'eth'));
+ * const validated = MoneyAddressValidators.validate(MoneyAddress.parse('#maddr', 'urn:usdt:eth:0x...'));
+ * ```
+ */
+export class MoneyAddressValidatorRegistry {
+  private readonly validators = new Map<string, MoneyAddressValidator>();
+
+  /**
+   * Creates a new registry.
+   * @param validators - The validators to register.
+   */
+  constructor(validators: readonly MoneyAddressValidator[] = []) {
+    validators.forEach(validator => this.register(validator));
+  }
+
+  /**
+   * Registers a validator, replacing any validator registered for the same currency and protocol.
+   * @param validator - The validator to register.
+   * @returns The registry, for chaining.
+   */
+  register(validator: MoneyAddressValidator): this {
+    this.validators.set(MoneyAddressValidatorRegistry.#key(validator.currency, validator.protocol), validator);
+    return this;
+  }
+
+  /**
+   * Returns the validator registered for a currency and protocol, if any. Both are case-insensitive.
+   */
+  get(currency: string, protocol: string): MoneyAddressValidator | undefined {
+    return this.validators.get(MoneyAddressValidatorRegistry.#key(currency, protocol));
+  }
+
+  /**
+   * Validates a money address with the validator registered for its currency and protocol.
+   * @param maddr - The money address to validate.
+   * @param options - Whether money addresses without a registered validator are rejected.
+   * @returns A money address with the normalized address, e.g. an EIP-55 checksummed Ethereum address.
+   * @throws {MoneyAddressValidationError} If the address is not valid.
+   */
+  validate(maddr: MoneyAddress, { requireValidator = false }: MoneyAddressValidateOptions = {}): MoneyAddress {
+    const { id, currency, protocol, address } = maddr;
+
+    const validator = this.get(currency, protocol);
+    if (!validator) {
+      if (requireValidator) {
+        throw new MoneyAddressValidationError(`Invalid money address in service ${id}: No validator for currency "${currency}" and protocol "${protocol}"`, { currency, protocol, reason: 'unsupported' });
+      }
+      return maddr;
+    }
+
+    const result = validator.validate(address);
+    if (!result.valid) {
+      throw new MoneyAddressValidationError(`Invalid money address in service ${id}: ${result.message}`, { currency, protocol, reason: result.reason });
+    }
+
+    const { nid, rComponent, qComponent, fComponent } = maddr.urn;
+    const urn = new Urn(nid, `${protocol}:${result.address}`, { rComponent, qComponent, fComponent });
+    return new MoneyAddress(id, urn, currency, protocol, result.address);
+  }
+
+  static #key(currency: string, protocol: string): string {
+    return `${currency.toLowerCase()}:${protocol.toLowerCase()}`;
+  }
+}
+
+/**
+ * Creates a validator for addresses on an EVM chain, e.g. `urn:usdc:base:0x...`. Addresses in a single case
+ * are accepted, mixed-case addresses must match their EIP-55 checksum. Addresses are normalized to their
+ * EIP-55 checksummed form.
+ * @param currency - The currency, e.g. `usdc`.
+ * @param protocol - The chain, e.g. `base`.
+ */
+export function createEvmAddressValidator(currency: string, protocol: string): MoneyAddressValidator {
+  return {
+    currency,
+    protocol,
+    validate: (address) => {
+      if (!/^0x[0-9a-f]{40}$/i.test(address)) {
+        return { valid: false, reason: 'malformed', message: `Expected an EVM address of "0x" followed by 40 hex digits but got "${address}"` };
+      }
+
+      const checksummed = toChecksumAddress(address);
+      const hex = address.slice(2);
+      const isSingleCase = hex === hex.toLowerCase() || hex === hex.toUpperCase();
+      if (!isSingleCase && address !== checksummed) {
+        return { valid: false, reason: 'checksum', message: `EIP-55 checksum mismatch for "${address}", expected "${checksummed}"` };
+      }
+
+      return { valid: true, address: checksummed };
+    },
+  };
+}
+
+/** Validates Bitcoin on-chain addresses, i.e. Base58Check P2PKH and P2SH addresses and Bech32(m) SegWit addresses. */
+const bitcoinAddressValidator: MoneyAddressValidator = {
+  currency: 'btc',
+  protocol: 'addr',
+  validate: (address) => {
+    if (/^(bc|tb|bcrt)1/i.test(address)) {
+      return validateSegwitAddress(address);
+    }
+
+    const decoded = base58Decode(address);
+    if (!decoded || decoded.length !== 25 || ![0x00, 0x05, 0x6f, 0xc4].includes(decoded[0])) {
+      return { valid: false, reason: 'malformed', message: `Expected a Base58Check or Bech32 Bitcoin address but got "${address}"` };
+    }
+
+    const checksum = sha256(sha256(decoded.subarray(0, 21))).subarray(0, 4);
+    if (!checksum.every((byte, index) => byte === decoded[21 + index])) {
+      return { valid: false, reason: 'checksum', message: `Base58Check checksum mismatch for "${address}"` };
+    }
+
+    return { valid: true, address };
+  },
+};
+
+/** Validates BOLT 11 Lightning invoices. */
+const lightningInvoiceValidator: MoneyAddressValidator = {
+  currency: 'btc',
+  protocol: 'lninvoice',
+  validate: (address) => {
+    if (!/^ln(bc|tb|bcrt|tbs)(\d+[munp]?)?1/i.test(address)) {
+      return { valid: false, reason: 'malformed', message: `Expected a BOLT 11 Lightning invoice but got "${address}"` };
+    }
+
+    const decoded = bech32Decode(address, Infinity);
+    if (!decoded) {
+      return { valid: false, reason: 'checksum', message: `Bech32 checksum mismatch for Lightning invoice "${address}"` };
+    }
+    if (decoded.encoding !== 'bech32' || decoded.data.length < 7 + 104) { // A timestamp and a signature are required.
+      return { valid: false, reason: 'malformed', message: 'Expected a BOLT 11 Lightning invoice with a timestamp and signature' };
+    }
+
+    return { valid: true, address: address.toLowerCase() };
+  },
+};
+
+/** Validates Lightning addresses as per LUD-16, e.g. `alice@domain.com`. */
+const lightningAddressValidator: MoneyAddressValidator = {
+  currency: 'btc',
+  protocol: 'lnaddr',
+  validate: (address) => {
+    const separatorIndex = address.lastIndexOf('@');
+    const username = address.slice(0, separatorIndex).toLowerCase();
+    const domain = Dap.normalizeDomain(address.slice(separatorIndex + 1));
+
+    if (separatorIndex <= 0 || !/^[a-z0-9\-_.+]+$/.test(username) || !Dap.isValidDomain(domain)) {
+      return { valid: false, reason: 'malformed', message: `Expected a Lightning address of the form "user@domain" but got "${address}"` };
+    }
+
+    return { valid: true, address: `${username}@${domain}` };
+  },
+};
+
+/** Validates Solana addresses, i.e. Base58 encoded 32-byte public keys. */
+const solanaAddressValidator = (currency: string): MoneyAddressValidator => ({
+  currency,
+  protocol: 'sol',
+  validate: (address) => {
+    const decoded = base58Decode(address);
+    if (!decoded || decoded.length !== 32) {
+      return { valid: false, reason: 'malformed', message: `Expected a Base58 encoded 32-byte Solana address but got "${address}"` };
+    }
+
+    return { valid: true, address };
+  },
+});
+
+/** The chains on which USDC addresses are validated by default. */
+const USDC_EVM_CHAINS = ['eth', 'base', 'polygon', 'arbitrum', 'optimism', 'avax'];
+
+/**
+ * The built-in validators: Bitcoin on-chain addresses (`urn:btc:addr`), Lightning invoices (`urn:btc:lninvoice`)
+ * and addresses (`urn:btc:lnaddr`), Ethereum addresses (`urn:eth:addr`) and USDC addresses on common EVM chains
+ * (e.g. `urn:usdc:eth`, `urn:usdc:base`) and Solana (`urn:usdc:sol`).
+ */
+export const BUILT_IN_MONEY_ADDRESS_VALIDATORS: readonly MoneyAddressValidator[] = [
+  bitcoinAddressValidator,
+  lightningInvoiceValidator,
+  lightningAddressValidator,
+  createEvmAddressValidator('eth', 'addr'),
+  ...USDC_EVM_CHAINS.map(chain => createEvmAddressValidator('usdc', chain)),
+  solanaAddressValidator('usdc'),
+];
+
+/**
+ * The default validator registry, preloaded with {@link BUILT_IN_MONEY_ADDRESS_VALIDATORS}.
+ */
+export const MoneyAddressValidators = new MoneyAddressValidatorRegistry(BUILT_IN_MONEY_ADDRESS_VALIDATORS);
+
+/**
+ * Error thrown when a money address is rejected by a {@link MoneyAddressValidator}.
+ */
+export class MoneyAddressValidationError extends InvalidMoneyAddress {
+  /** The currency of the rejected money address. */
+  readonly currency: string;
+
+  /** The protocol of the rejected money address. */
+  readonly protocol: string;
+
+  /** Why the money address was rejected. */
+  readonly reason: MoneyAddressValidationReason;
+
+  /**
+   * Creates a new MoneyAddressValidationError error.
+   * @param message - Custom error message.
+   * @param details - The currency and protocol of the rejected money address, and why it was rejected.
+   */
+  constructor(message: string, { currency, protocol, reason }: { currency: string, protocol: string, reason: MoneyAddressValidationReason }) {
+    super(message);
+    this.name = 'MoneyAddressValidationError';
+    this.currency = currency;
+    this.protocol = protocol;
+    this.reason = reason;
+  }
+}
+
+/** The Base58 alphabet used by Bitcoin and Solana. */
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/** The Bech32 alphabet, see BIP 173. */
+const BECH32_ALPHABET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+/** The checksum constants of Bech32 (BIP 173) and Bech32m (BIP 350). */
+const BECH32_CONSTANTS = { bech32: 1, bech32m: 0x2bc830a3 } as const;
+
+/**
+ * Returns the EIP-55 checksummed form of an EVM address.
+ */
+function toChecksumAddress(address: string): string {
+  const hex = address.slice(2).toLowerCase();
+  const hash = Convert.uint8Array(keccak_256(Convert.string(hex).toUint8Array())).toHex();
+
+  const checksummed = [...hex].map((char, index) => parseInt(hash[index], 16) >= 8 ? char.toUpperCase() : char).join('');
+  return `0x${checksummed}`;
+}
+
+/**
+ * Decodes a Base58 string, keeping leading zero bytes.
+ * @returns The decoded bytes, or `undefined` if the string contains characters outside of the alphabet.
+ */
+function base58Decode(value: string): Uint8Array | undefined {
+  let number = 0n;
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      return undefined;
+    }
+    number = number * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  for (; number > 0n; number >>= 8n) {
+    bytes.unshift(Number(number & 0xffn));
+  }
+
+  const leadingZeros = value.length - value.replace(/^1+/, '').length;
+  return new Uint8Array([...new Array(leadingZeros).fill(0), ...bytes]);
+}
+
+/**
+ * Decodes a Bech32 or Bech32m string and verifies its checksum.
+ * @returns The human-readable part, the 5-bit data words without the checksum and the encoding, or
+ * `undefined` if the string is malformed or its checksum does not match.
+ */
+function bech32Decode(value: string, maxLength = 90): { hrp: string, data: number[], encoding: keyof typeof BECH32_CONSTANTS } | undefined {
+  if (value.length > maxLength || (value !== value.toLowerCase() && value !== value.toUpperCase())) {
+    return undefined;
+  }
+
+  const lowercase = value.toLowerCase();
+  const separatorIndex = lowercase.lastIndexOf('1');
+  if (separatorIndex < 1 || separatorIndex + 7 > lowercase.length) {
+    return undefined;
+  }
+
+  const hrp = lowercase.slice(0, separatorIndex);
+  const data = [...lowercase.slice(separatorIndex + 1)].map(char => BECH32_ALPHABET.indexOf(char));
+  if (data.includes(-1) || [...hrp].some(char => char.charCodeAt(0) < 33 || char.charCodeAt(0) > 126)) {
+    return undefined;
+  }
+
+  const hrpCodes = [...hrp].map(char => char.charCodeAt(0));
+  const checksum = bech32Polymod([...hrpCodes.map(code => code >> 5), 0, ...hrpCodes.map(code => code & 31), ...data]);
+
+  const encoding = (Object.keys(BECH32_CONSTANTS) as (keyof typeof BECH32_CONSTANTS)[]).find(key => BECH32_CONSTANTS[key] === checksum);
+  return encoding === undefined ? undefined : { hrp, data: data.slice(0, -6), encoding };
+}
+
+function bech32Polymod(values: number[]): number {
+  const generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    generator.forEach((word, index) => {
+      if ((top >>> index) & 1) {
+        checksum ^= word;
+      }
+    });
+  }
+
+  return checksum >>> 0;
+}
+
+/**
+ * Validates a SegWit address as per BIP 173 and BIP 350.
+ */
+function validateSegwitAddress(address: string): AddressValidationResult {
+  const decoded = bech32Decode(address);
+  if (!decoded) {
+    return { valid: false, reason: 'checksum', message: `Bech32 checksum mismatch for "${address}"` };
+  }
+
+  const { hrp, data, encoding } = decoded;
+  const [ version, ...words ] = data;
+  const program = convertBits(words, 5, 8);
+
+  const isValidProgram = program !== undefined && program.length >= 2 && program.length <= 40
+    && (version === 0 ? (program.length === 20 || program.length === 32) && encoding === 'bech32' : version <= 16 && encoding === 'bech32m');
+  if (!['bc', 'tb', 'bcrt'].includes(hrp) || version === undefined || !isValidProgram) {
+    return { valid: false, reason: 'malformed', message: `Expected a SegWit address with a valid witness program but got "${address}"` };
+  }
+
+  return { valid: true, address: address.toLowerCase() };
+}
+
+/**
+ * Regroups 5-bit words into bytes, rejecting non-zero padding.
+ */
+function convertBits(words: number[], fromBits: number, toBits: number): number[] | undefined {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << toBits) - 1;
+
+  for (const word of words) {
+    accumulator = (accumulator << fromBits) | word;
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((accumulator >> bits) & maxValue);
+    }
+  }
+
+  if (bits >= fromBits || ((accumulator << (toBits - bits)) & maxValue) !== 0) {
+    return undefined;
+  }
+
+  return result;
+}
\ No newline at end of file
@@ -0,0 +1,124 @@
+import type { DidDocument } from '@web5/dids';
+import type { DidResolverInterface } from './did-resolver';
+
+import { getServices } from '@web5/dids/utils';
+
+import { DidResolver } from './did-resolver';
+import { InvalidUrn, Urn } from './urn';
+
+/**
+ * Represents a money address advertised in a DID document, e.g. `urn:btc:addr:bc1q...`.
+ *
+ * The URN's NID is the currency, the first segment of the NSS is the protocol and the remainder
+ * of the NSS is the address itself.
+ */
+export class MoneyAddress {
+  /** The DID service type advertising money addresses. */
+  static readonly SERVICE_TYPE = 'MaddrService';
+
+  /**
+   * Creates a new MoneyAddress instance.
+   * @param id - The ID of the DID service the money address was found in.
+   * @param urn - The money address URN.
+   * @param currency - The currency code, e.g. `btc`.
+   * @param protocol - The protocol used to transfer the currency, e.g. `lnaddr`.
+   * @param address - The protocol specific address.
+   */
+  constructor(
+    public readonly id: string,
+    public readonly urn: Urn,
+    public readonly currency: string,
+    public readonly protocol: string,
+    public readonly address: string
+  ) {}
+
+  /**
+   * Converts the money address to its URN string representation.
+   * @returns The money address URN.
+   */
+  toString(): string {
+    return this.urn.toString();
+  }
+
+  /**
+   * Parses a money address URN.
+   * @param id - The ID of the DID service the money address was found in.
+   * @param maddr - The money address URN to parse.
+   * @returns A new MoneyAddress instance.
+   * @throws {InvalidMoneyAddress} If the provided string is not a valid money address.
+   */
+  static parse(id: string, maddr: string): MoneyAddress {
+    let urn: Urn;
+    try {
+      urn = Urn.parse(maddr);
+    } catch (error) {
+      if (error instanceof InvalidUrn) {
+        throw new InvalidMoneyAddress(`Invalid money address in service ${id}: Expected a URN but got "${maddr}"`);
+      }
+      throw error;
+    }
+
+    const separatorIndex = urn.nss.indexOf(':');
+    if (separatorIndex <= 0 || separatorIndex === urn.nss.length - 1) {
+      throw new InvalidMoneyAddress(`Invalid money address in service ${id}: Expected "urn:<currency>:<protocol>:<address>" but got "${maddr}"`);
+    }
+
+    const protocol = urn.nss.slice(0, separatorIndex);
+    const address = urn.nss.slice(separatorIndex + 1);
+
+    return new MoneyAddress(id, urn, urn.nid, protocol, address);
+  }
+
+  /**
+   * Extracts all money addresses from the `MaddrService` services of a DID document.
+   * @param didDocument - The resolved DID document.
+   * @returns The money addresses in the order they appear in the DID document.
+   * @throws {InvalidMoneyAddress} If a `MaddrService` endpoint is not a valid money address.
+   */
+  static fromDidDocument(didDocument: DidDocument): MoneyAddress[] {
+    const services = getServices({ didDocument, type: MoneyAddress.SERVICE_TYPE });
+
+    return services.flatMap(service => {
+      const endpoints = Array.isArray(service.serviceEndpoint) ? service.serviceEndpoint : [service.serviceEndpoint];
+
+      return endpoints.map(endpoint => {
+        if (typeof endpoint !== 'string') {
+          throw new InvalidMoneyAddress(`Invalid money address in service ${service.id}: Expected endpoint to be a string`);
+        }
+        return MoneyAddress.parse(service.id, endpoint);
+      });
+    });
+  }
+
+  /**
+   * Resolves a DID and extracts the money addresses from its DID document, e.g. the DID returned by
+   * {@link DapResolver.resolve}.
+   * @param did - The DID to resolve.
+   * @param didResolver - The resolver used to resolve the DID. Defaults to {@link DidResolver}.
+   * @returns A promise that resolves to the DID's money addresses.
+   * @throws {InvalidMoneyAddress} If the DID cannot be resolved or advertises a malformed money address.
+   */
+  static async fromDid(did: string, didResolver: DidResolverInterface = DidResolver): Promise<MoneyAddress[]> {
+    const { didDocument, didResolutionMetadata } = await didResolver.resolve(did);
+
+    if (!didDocument) {
+      throw new InvalidMoneyAddress(`Failed to resolve ${did}: ${didResolutionMetadata.error ?? 'Unknown error'}`);
+    }
+
+    return MoneyAddress.fromDidDocument(didDocument);
+  }
+}
+
+/**
+ * Error thrown when an invalid money address is encountered.
+ */
+export class InvalidMoneyAddress extends Error {
+  /**
+   * Creates a new InvalidMoneyAddress error.
+   * @param message - Optional custom error message. Defaults to 'Invalid money address'.
+   */
+  constructor(message?: string) {
+    super(message ?? 'Invalid money address');
+    this.name = 'InvalidMoneyAddress';
+  }
+}
\ No newline at end of file
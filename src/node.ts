@@ -0,0 +1 @@
+export * from './portable-did-node';
\ No newline at end of file
@@ -0,0 +1,231 @@
+import type { BearerDid } from '@web5/dids';
+import type { VerificationContext } from './context';
+import type { DapRegistration } from './registration';
+import type { VcJwtClaims } from './vc-jwt';
+
+import { Convert } from '@web5/common';
+
+import { Crypto } from './crypto';
+import { Dap } from './dap';
+import { CREDENTIALS_CONTEXT, toDateTime, verifyVcJwt } from './vc-jwt';
+
+/**
+ * The status entry of a credential, used to check whether it has been revoked, e.g. a `StatusList2021Entry`.
+ */
+export interface CredentialStatus {
+  /** The URL identifying the status entry. */
+  id: string;
+
+  /** The type of status mechanism. */
+  type: string;
+
+  [key: string]: unknown;
+}
+
+/**
+ * The claims of a DAP ownership credential in VC-JWT format.
+ */
+export interface DapOwnershipCredentialClaims extends VcJwtClaims {
+  /** The ID of the credential. */
+  jti: string;
+
+  vc: VcJwtClaims['vc'] & {
+    id: string;
+    credentialSubject: {
+      /** The DID owning the DAP. */
+      id: string;
+
+      /** The DAP, e.g. `@alice/domain.com`. */
+      dap: string;
+
+      /** The ID of the registration binding the DAP to the DID. */
+      registrationId: string;
+    };
+    credentialStatus?: CredentialStatus;
+  };
+}
+
+/**
+ * Options passed to {@link DapOwnershipCredential.issue}
+ */
+export type DapOwnershipIssueOptions = {
+  /** The time at which the credential is issued. Defaults to now. */
+  issuedAt?: Date
+  /** The time at which the credential expires. Defaults to the registration's expiry, if any. */
+  expiresAt?: Date
+  /** The status entry used to revoke the credential, if any. */
+  credentialStatus?: CredentialStatus
+}
+
+/**
+ * Checks whether a credential has been revoked, e.g. by fetching the status list it refers to.
+ */
+export interface CredentialStatusChecker {
+  /** Returns `true` if the credential with the given status entry has been revoked. */
+  isRevoked(status: CredentialStatus, claims: DapOwnershipCredentialClaims): Promise<boolean>;
+}
+
+/**
+ * Options passed to {@link DapOwnershipCredential.verify}
+ */
+export type DapOwnershipVerifyOptions = VerificationContext & {
+  /** The DAP the credential must be for, if any. */
+  dap?: Dap | string
+  /** The DID the credential must be issued to, if any. */
+  did?: string
+  /** The DIDs trusted to issue credentials. Defaults to the `did:web` DID of the DAP's domain. */
+  trustedIssuers?: string[]
+  /** Checks the credential's status entry. If omitted, the status entry is not checked. */
+  statusChecker?: CredentialStatusChecker
+}
+
+/**
+ * The result of verifying a credential with {@link DapOwnershipCredential.verify}
+ */
+export type DapOwnershipVerificationResult = {
+  /** The DAP owned by the DID. */
+  dap: Dap
+  /** The DID owning the DAP. */
+  did: string
+  /** The registry DID that issued the credential. */
+  issuer: string
+  /** The ID of the registration binding the DAP to the DID. */
+  registrationId: string
+  /** The time at which the credential was issued. */
+  issuedAt: Date
+  /** The time at which the credential expires, if it does. */
+  expiresAt?: Date
+}
+
+/**
+ * A Verifiable Credential, issued by a registry, proving that a DID owns a DAP. Other services can verify it
+ * without calling the registry, e.g.
+ *
+ * ```ts
+ * const credential = await DapOwnershipCredential.issue(registration, registryDid);
+ * const { dap, did } = await DapOwnershipCredential.verify(credential, { dap: '@alice/domain.com' });
+ * ```
+ */
+export class DapOwnershipCredential {
+  /** The credential type. */
+  static readonly TYPE = 'DapOwnershipCredential';
+
+  /**
+   * Issues a credential proving that a registration's DID owns its DAP. Registries should only issue
+   * credentials for registrations they accepted.
+   * @param registration - The accepted registration.
+   * @param registryDid - The registry's DID, which signs the credential. Verifiers expect the `did:web` DID of the registration's domain by default.
+   * @param options - The validity and status of the credential.
+   * @returns A promise that resolves to the credential as a VC-JWT.
+   */
+  static async issue(registration: DapRegistration, registryDid: BearerDid, { issuedAt = new Date(), expiresAt = registration.expiresAt, credentialStatus }: DapOwnershipIssueOptions = {}): Promise<string> {
+    const id = `urn:uuid:${crypto.randomUUID()}`;
+
+    const claims: DapOwnershipCredentialClaims = {
+      iss: registryDid.uri,
+      sub: registration.did,
+      nbf: Math.floor(issuedAt.getTime() / 1000),
+      jti: id,
+      vc: {
+        '@context': [CREDENTIALS_CONTEXT],
+        id,
+        type: ['VerifiableCredential', DapOwnershipCredential.TYPE],
+        issuer: registryDid.uri,
+        issuanceDate: toDateTime(issuedAt),
+        credentialSubject: {
+          id: registration.did,
+          dap: new Dap(registration.handle, registration.domain).toString(),
+          registrationId: registration.id.toString(),
+        },
+      },
+    };
+
+    if (expiresAt !== undefined) {
+      claims.exp = Math.floor(expiresAt.getTime() / 1000);
+      claims.vc.expirationDate = toDateTime(expiresAt);
+    }
+    if (credentialStatus !== undefined) {
+      claims.vc.credentialStatus = credentialStatus;
+    }
+
+    return await Crypto.sign({ did: registryDid, payload: Convert.object(claims).toUint8Array(), detached: false, typ: 'JWT' });
+  }
+
+  /**
+   * Verifies a DAP ownership credential.
+   * @param credential - The credential as a VC-JWT.
+   * @param options - The expected DAP, DID and issuers, and the dependencies used when verifying the credential.
+   * @returns A promise that resolves to the verified ownership claim.
+   * @throws {InvalidDapOwnershipCredential} If the credential is malformed, not signed by a trusted issuer, expired, revoked, or for another DAP or DID.
+   */
+  static async verify(credential: string, { dap, did, trustedIssuers, statusChecker, ...context }: DapOwnershipVerifyOptions = {}): Promise<DapOwnershipVerificationResult> {
+    const { signer: issuer, claims } = await verifyVcJwt<DapOwnershipCredentialClaims>(credential, context, reason => new InvalidDapOwnershipCredential(`Invalid DAP ownership credential: ${reason}`));
+
+    const { vc } = claims;
+    if (!Array.isArray(vc.type) || !vc.type.includes(DapOwnershipCredential.TYPE)) {
+      throw new InvalidDapOwnershipCredential(`Invalid DAP ownership credential: Expected type "${DapOwnershipCredential.TYPE}"`);
+    }
+    if (claims.iss !== issuer || vc.issuer !== issuer) {
+      throw new InvalidDapOwnershipCredential(`Invalid DAP ownership credential: Expected issuer to be the signer ${issuer}`);
+    }
+
+    const subject = vc.credentialSubject;
+    if (typeof subject.id !== 'string' || claims.sub !== subject.id) {
+      throw new InvalidDapOwnershipCredential('Invalid DAP ownership credential: Expected "sub" claim to be the credential subject');
+    }
+
+    let ownedDap: Dap;
+    try {
+      ownedDap = Dap.parse(subject.dap);
+    } catch (error: any) {
+      throw new InvalidDapOwnershipCredential(`Invalid DAP ownership credential: ${error?.message ?? 'Invalid DAP'}`);
+    }
+
+    if (dap !== undefined && !ownedDap.equals(dap)) {
+      throw new InvalidDapOwnershipCredential(`Invalid DAP ownership credential: Expected credential for ${dap} but got ${ownedDap}`);
+    }
+    if (did !== undefined && subject.id !== did) {
+      throw new InvalidDapOwnershipCredential(`Invalid DAP ownership credential: Expected credential issued to ${did}`);
+    }
+
+    const issuers = trustedIssuers ?? [`did:web:${ownedDap.domain}`];
+    if (!issuers.includes(issuer)) { // Only the registry operating the DAP's domain may vouch for its ownership.
+      throw new InvalidDapOwnershipCredential(`Invalid DAP ownership credential: Issuer ${issuer} is not trusted for ${ownedDap.domain}`);
+    }
+
+    const now = Math.floor((context.clock?.() ?? new Date()).getTime() / 1000);
+    if (!Number.isInteger(claims.nbf) || (claims.exp !== undefined && !Number.isInteger(claims.exp))) {
+      throw new InvalidDapOwnershipCredential('Invalid DAP ownership credential: Expected integer "nbf" and "exp" claims');
+    }
+    if (now < claims.nbf || (claims.exp !== undefined && now >= claims.exp)) {
+      throw new InvalidDapOwnershipCredential('Invalid DAP ownership credential: Expired or not yet valid');
+    }
+
+    if (statusChecker && vc.credentialStatus !== undefined && await statusChecker.isRevoked(vc.credentialStatus, claims)) {
+      throw new InvalidDapOwnershipCredential('Invalid DAP ownership credential: Credential has been revoked');
+    }
+
+    return {
+      dap: ownedDap,
+      did: subject.id,
+      issuer,
+      registrationId: subject.registrationId,
+      issuedAt: new Date(claims.nbf * 1000),
+      expiresAt: claims.exp === undefined ? undefined : new Date(claims.exp * 1000),
+    };
+  }
+}
+
+/**
+ * Error thrown when a DAP ownership credential cannot be verified.
+ */
+export class InvalidDapOwnershipCredential extends Error {
+  /**
+   * Creates a new InvalidDapOwnershipCredential error.
+   * @param message - Optional custom error message. Defaults to 'Invalid DAP ownership credential'.
+   */
+  constructor(message?: string) {
+    super(message ?? 'Invalid DAP ownership credential');
+    this.name = 'InvalidDapOwnershipCredential';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+import type { BearerDid } from '@web5/dids';
+import type { DidStorageOptions } from './portable-did';
+
+import { readFile, writeFile } from 'node:fs/promises';
+
+import { DidStorage, InvalidPortableDid } from './portable-did';
+
+/**
+ * A {@link DidStorage} that also loads and persists DIDs using files and environment variables. Node-only,
+ * import it from `@tbd54566975/dap/node`, e.g.
+ *
+ * ```ts
+ * const did = await NodeDidStorage.fromEnv('DAP_DID', { passphrase: process.env.DAP_DID_PASSPHRASE });
+ * await registration.sign(did);
+ * ```
+ */
+export class NodeDidStorage extends DidStorage {
+  /**
+   * Imports a DID from a JSON file.
+   * @param path - The path of the file written by {@link NodeDidStorage.writeFile}.
+   * @param options - Options used to decrypt the DID.
+   * @returns A promise that resolves to the DID.
+   * @throws {InvalidPortableDid} If the file does not contain a valid portable DID.
+   */
+  static async readFile(path: string, options: DidStorageOptions = {}): Promise<BearerDid> {
+    return await DidStorage.deserialize(await readFile(path, 'utf8'), options);
+  }
+
+  /**
+   * Exports a DID to a JSON file readable only by the current user.
+   * @param did - The DID to export.
+   * @param path - The path of the file.
+   * @param options - Options used to encrypt the DID.
+   */
+  static async writeFile(did: BearerDid, path: string, options: DidStorageOptions = {}): Promise<void> {
+    await writeFile(path, await DidStorage.serialize(did, options), { mode: 0o600 });
+  }
+
+  /**
+   * Imports a DID from an environment variable holding the JSON, or Base64URL encoded JSON, of a portable DID.
+   * @param name - The name of the environment variable.
+   * @param options - Options used to decrypt the DID, and the environment to read from. Defaults to `process.env`.
+   * @returns A promise that resolves to the DID.
+   * @throws {InvalidPortableDid} If the variable is not set or does not contain a valid portable DID.
+   */
+  static async fromEnv(name: string, { env = process.env, ...options }: DidStorageOptions & { env?: Record<string, string | undefined> } = {}): Promise<BearerDid> {
+    const value = env[name];
+    if (value === undefined || value.trim() === '') {
+      throw new InvalidPortableDid(`Environment variable ${name} is not set`);
+    }
+
+    return await DidStorage.deserialize(value, options);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,162 @@
+import type { PortableDid } from '@web5/dids';
+
+import { Convert } from '@web5/common';
+import { BearerDid } from '@web5/dids';
+
+/**
+ * Options passed to {@link DidStorage} methods
+ */
+export type DidStorageOptions = {
+  /** If set, the portable DID is encrypted at rest with a key derived from this passphrase. */
+  passphrase?: string
+  /** The number of PBKDF2 iterations used to derive the encryption key. Defaults to 600,000. */
+  iterations?: number
+}
+
+/**
+ * A portable DID encrypted with a passphrase, as written by {@link DidStorage.serialize}.
+ */
+export interface EncryptedPortableDid {
+  type: 'EncryptedPortableDid';
+
+  /** The key derivation function, PBKDF2 with HMAC-SHA-256. */
+  kdf: 'PBKDF2-SHA256';
+
+  /** The number of PBKDF2 iterations. */
+  iterations: number;
+
+  /** The Base64URL encoded PBKDF2 salt. */
+  salt: string;
+
+  /** The content encryption algorithm, AES-GCM with a 256-bit key. */
+  enc: 'A256GCM';
+
+  /** The Base64URL encoded AES-GCM initialization vector. */
+  iv: string;
+
+  /** The Base64URL encoded encrypted portable DID, including the authentication tag. */
+  ciphertext: string;
+}
+
+/**
+ * Exports and imports DIDs, including their private keys, so that registrations can be signed with a
+ * persisted key, e.g.
+ *
+ * ```ts
+ * const did = await DidStorage.deserialize(json, { passphrase });
+ * await registration.sign(did);
+ * ```
+ *
+ * Reading DIDs from files and environment variables is Node-only, see {@link NodeDidStorage}.
+ */
+export class DidStorage {
+  /** The default number of PBKDF2 iterations, as recommended by OWASP for PBKDF2-HMAC-SHA256. */
+  static readonly DEFAULT_ITERATIONS = 600_000;
+
+  /**
+   * Exports a DID as JSON, encrypting it if a passphrase is given.
+   * @param did - The DID to export.
+   * @param options - Options used to encrypt the DID.
+   * @returns The portable DID, or an {@link EncryptedPortableDid}, as JSON.
+   */
+  static async serialize(did: BearerDid, { passphrase, iterations = DidStorage.DEFAULT_ITERATIONS }: DidStorageOptions = {}): Promise<string> {
+    const portableDid = await did.export();
+    if (passphrase === undefined) {
+      return JSON.stringify(portableDid, null, 2);
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await DidStorage.#deriveKey(passphrase, salt, iterations);
+
+    const plaintext = Convert.object(portableDid).toUint8Array();
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext));
+
+    const encrypted: EncryptedPortableDid = {
+      type: 'EncryptedPortableDid',
+      kdf: 'PBKDF2-SHA256',
+      iterations,
+      salt: Convert.uint8Array(salt).toBase64Url(),
+      enc: 'A256GCM',
+      iv: Convert.uint8Array(iv).toBase64Url(),
+      ciphertext: Convert.uint8Array(ciphertext).toBase64Url(),
+    };
+
+    return JSON.stringify(encrypted, null, 2);
+  }
+
+  /**
+   * Imports a DID from a portable DID or an {@link EncryptedPortableDid}.
+   * @param json - The JSON, or Base64URL encoded JSON, written by {@link DidStorage.serialize}.
+   * @param options - Options used to decrypt the DID.
+   * @returns A promise that resolves to the DID, ready to sign with.
+   * @throws {InvalidPortableDid} If the JSON is malformed, or the DID is encrypted and the passphrase is missing or wrong.
+   */
+  static async deserialize(json: string, { passphrase }: DidStorageOptions = {}): Promise<BearerDid> {
+    let parsed: PortableDid | EncryptedPortableDid;
+    try {
+      const trimmed = json.trim();
+      parsed = JSON.parse(trimmed.startsWith('{') ? trimmed : Convert.base64Url(trimmed).toString());
+    } catch (error: any) {
+      throw new InvalidPortableDid(`Failed to parse portable DID: ${error?.message ?? 'Unknown error'}`);
+    }
+
+    const portableDid = DidStorage.#isEncrypted(parsed) ? await DidStorage.#decrypt(parsed, passphrase) : parsed;
+
+    try {
+      return await BearerDid.import({ portableDid });
+    } catch (error: any) {
+      throw new InvalidPortableDid(`Invalid portable DID: ${error?.message ?? 'Unknown error'}`);
+    }
+  }
+
+  static #isEncrypted(value: PortableDid | EncryptedPortableDid): value is EncryptedPortableDid {
+    return (value as EncryptedPortableDid)?.type === 'EncryptedPortableDid';
+  }
+
+  static async #decrypt(encrypted: EncryptedPortableDid, passphrase?: string): Promise<PortableDid> {
+    if (passphrase === undefined) {
+      throw new InvalidPortableDid('Portable DID is encrypted: A passphrase is required');
+    }
+    if (encrypted.kdf !== 'PBKDF2-SHA256' || encrypted.enc !== 'A256GCM' || !Number.isInteger(encrypted.iterations) || encrypted.iterations < 1) {
+      throw new InvalidPortableDid('Portable DID is encrypted with unsupported parameters');
+    }
+
+    try {
+      const key = await DidStorage.#deriveKey(passphrase, Convert.base64Url(encrypted.salt).toUint8Array(), encrypted.iterations);
+      const iv = Convert.base64Url(encrypted.iv).toUint8Array();
+      const ciphertext = Convert.base64Url(encrypted.ciphertext).toUint8Array();
+
+      const plaintext = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext));
+      return Convert.uint8Array(plaintext).toObject() as PortableDid;
+    } catch {
+      throw new InvalidPortableDid('Failed to decrypt portable DID: Wrong passphrase or corrupted data');
+    }
+  }
+
+  static async #deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const passphraseKey = await crypto.subtle.importKey('raw', Convert.string(passphrase).toUint8Array(), 'PBKDF2', false, ['deriveKey']);
+
+    return await crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      passphraseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+}
+
+/**
+ * Error thrown when a portable DID cannot be imported.
+ */
+export class InvalidPortableDid extends Error {
+  /**
+   * Creates a new InvalidPortableDid error.
+   * @param message - Optional custom error message. Defaults to 'Invalid portable DID'.
+   */
+  constructor(message?: string) {
+    super(message ?? 'Invalid portable DID');
+    this.name = 'InvalidPortableDid';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,250 @@
+import type { DidResolutionResult } from '@web5/dids';
+import type { SignatureVerifier, VerificationContext } from './context';
+import type { RegistrationModel } from './registration';
+
+import { Convert } from '@web5/common';
+
+import { Crypto } from './crypto';
+import { DidResolver, StaticDidResolver } from './did-resolver';
+import { DapRegistration } from './registration';
+
+/**
+ * A DID resolution result captured in a {@link DapProofBundle}.
+ */
+export interface DidResolutionSnapshot {
+  /** ISO 8601 timestamp of when the DID was resolved. */
+  resolvedAt: string;
+
+  /** The DID document along with its resolution and document metadata. */
+  result: DidResolutionResult;
+}
+
+/**
+ * The JSON representation of a {@link DapProofBundle}.
+ */
+export interface ProofBundleModel {
+  /** The signed registration. */
+  registration: RegistrationModel;
+
+  /** The resolution of every DID that signed the registration, keyed by DID. */
+  resolutions: Record<string, DidResolutionSnapshot>;
+
+  /** ISO 8601 timestamp of when the bundle was created. */
+  createdAt: string;
+}
+
+/**
+ * Options passed to {@link DapProofBundle.verify} and {@link DapProofBundle.verifyBundle}
+ */
+export type ProofBundleVerifyOptions = {
+  /** The verifier used to check signatures. Defaults to a `LocalKeyManager`. */
+  verifier?: SignatureVerifier
+  /** The time at which the registration's expiry is checked. Defaults to when the bundle was created. */
+  now?: Date
+}
+
+/**
+ * The result of verifying a {@link DapProofBundle}
+ */
+export type ProofBundleVerificationResult = {
+  /** The verified registration. */
+  registration: DapRegistration
+  /** The DID that signed the registration. */
+  did: string
+  /** The DID that authorized a DID rotation with the registration's previous signature, if any. */
+  previousDid?: string
+  /** The registry DID that counter-signed the registration, if any. */
+  registryDid?: string
+  /** The time at which the registration was checked to be valid. */
+  verifiedAsOf: Date
+  /** The captured DID resolutions the verification relied on, and when each was resolved. */
+  trustedResolutions: { did: string, resolvedAt: Date }[]
+}
+
+/**
+ * A self-contained proof of a DAP registration, for audit archives and air-gapped verification.
+ *
+ * A bundle captures the registration along with the resolved DID documents of every DID that signed it,
+ * so that it can later be verified with {@link DapProofBundle.verifyBundle} without network access.
+ */
+export class DapProofBundle {
+  /**
+   * Creates a new DapProofBundle. Consumers should use {@link DapProofBundle.create} and {@link DapProofBundle.parse}.
+   * @param registration - The signed registration.
+   * @param resolutions - The resolution of every DID that signed the registration, keyed by DID.
+   * @param createdAt - When the bundle was created.
+   */
+  constructor(
+    public registration: DapRegistration,
+    public resolutions: Record<string, DidResolutionSnapshot>,
+    public createdAt: Date
+  ) {}
+
+  /**
+   * Creates a proof bundle by resolving every DID that signed the registration, i.e. the registrant,
+   * the previous DID of a rotation and the registry.
+   * @param registration - The signed registration.
+   * @param context - The resolver used to resolve the signers' DIDs and the clock used to timestamp the resolutions.
+   * @returns A promise that resolves to the proof bundle.
+   * @throws {InvalidProofBundle} If the registration is not signed or a signer's DID cannot be resolved.
+   */
+  static async create(registration: DapRegistration, { didResolver = DidResolver, clock = () => new Date() }: VerificationContext = {}): Promise<DapProofBundle> {
+    const resolutions: Record<string, DidResolutionSnapshot> = {};
+
+    for (const did of DapProofBundle.#signerDids(registration)) {
+      const result = await didResolver.resolve(did);
+      if (result.didResolutionMetadata.error) {
+        throw new InvalidProofBundle(`Invalid proof bundle: Failed to resolve ${did}: ${result.didResolutionMetadata.error}`);
+      }
+      resolutions[did] = { resolvedAt: clock().toISOString(), result };
+    }
+
+    return new DapProofBundle(registration, resolutions, clock());
+  }
+
+  /**
+   * Parses a JSON proof bundle. The bundle is not verified, use {@link DapProofBundle.verify} for that.
+   * @param rawBundle - The bundle, either as a JSON string or an already parsed object.
+   * @returns The proof bundle.
+   * @throws {InvalidProofBundle} If the bundle is malformed or its registration is invalid.
+   */
+  static parse(rawBundle: ProofBundleModel | string): DapProofBundle {
+    let model: ProofBundleModel;
+    try {
+      model = typeof rawBundle === 'string' ? JSON.parse(rawBundle) : rawBundle;
+    } catch (error: any) {
+      throw new InvalidProofBundle(`Failed to parse proof bundle: ${error?.message ?? 'Unknown error'}`);
+    }
+
+    if (typeof model !== 'object' || model === null || typeof model.registration !== 'object' || model.registration === null
+      || typeof model.resolutions !== 'object' || model.resolutions === null) {
+      throw new InvalidProofBundle('Invalid proof bundle: Expected registration and resolutions objects');
+    }
+
+    const createdAt = new Date(model.createdAt);
+    if (typeof model.createdAt !== 'string' || isNaN(createdAt.getTime())) {
+      throw new InvalidProofBundle('Invalid proof bundle: Expected createdAt to be an ISO 8601 timestamp');
+    }
+
+    let registration: DapRegistration;
+    try {
+      registration = DapRegistration.fromModel(model.registration);
+      registration.validate();
+    } catch (error: any) {
+      throw new InvalidProofBundle(`Invalid proof bundle: ${error?.message ?? 'Unknown error'}`);
+    }
+
+    return new DapProofBundle(registration, model.resolutions, createdAt);
+  }
+
+  /**
+   * Parses a proof bundle if needed and verifies it without network access, see {@link DapProofBundle.verify}.
+   * @param bundle - The bundle, either as a {@link DapProofBundle}, a JSON string or an already parsed object.
+   * @param options - Options used when verifying the bundle.
+   * @returns A promise that resolves to what was verified, and as of which time.
+   * @throws {InvalidProofBundle} If the bundle is malformed or any of its proofs is invalid.
+   */
+  static async verifyBundle(bundle: DapProofBundle | ProofBundleModel | string, options: ProofBundleVerifyOptions = {}): Promise<ProofBundleVerificationResult> {
+    const proofBundle = bundle instanceof DapProofBundle ? bundle : DapProofBundle.parse(bundle);
+    return await proofBundle.verify(options);
+  }
+
+  /**
+   * Verifies the bundle using only the DID documents it contains:
+   *
+   * 1. Every captured resolution must be a successful resolution of an active DID.
+   * 2. The registration must be signed by its DID and valid at {@link ProofBundleVerifyOptions.now}.
+   * 3. The previous signature of a DID rotation, if any, must be valid.
+   * 4. The registry's counter-signature, if any, must be signed by the `did:web` DID of the registration's domain.
+   *
+   * @param options - Options used when verifying the bundle.
+   * @returns A promise that resolves to what was verified, and as of which time.
+   * @throws {InvalidProofBundle} If any of the proofs is invalid.
+   */
+  async verify({ verifier, now = this.createdAt }: ProofBundleVerifyOptions = {}): Promise<ProofBundleVerificationResult> {
+    const results: Record<string, DidResolutionResult> = {};
+    const trustedResolutions: ProofBundleVerificationResult['trustedResolutions'] = [];
+
+    for (const [did, snapshot] of Object.entries(this.resolutions)) {
+      const result = snapshot?.result;
+      if (result?.didResolutionMetadata?.error || result?.didDocument?.id !== did || result.didDocumentMetadata?.deactivated) {
+        throw new InvalidProofBundle(`Invalid proof bundle: Expected a successful resolution of an active DID for ${did}`);
+      }
+      results[did] = result;
+      trustedResolutions.push({ did, resolvedAt: new Date(snapshot.resolvedAt) });
+    }
+
+    const context: VerificationContext = { didResolver: new StaticDidResolver(results), verifier };
+
+    try {
+      const did = await this.registration.verify({ ...context, now });
+
+      let previousDid: string | undefined;
+      if (this.registration.previousSignature !== undefined) {
+        const payload = await this.registration.computeDigest();
+        previousDid = await Crypto.verify({ jws: this.registration.previousSignature, detachedPayload: payload, ...context });
+      }
+
+      let registryDid: string | undefined;
+      if (this.registration.registrySignature !== undefined) {
+        registryDid = await this.registration.verifyCounterSignature(context);
+      }
+
+      return { registration: this.registration, did, previousDid, registryDid, verifiedAsOf: now, trustedResolutions };
+    } catch (error: any) {
+      throw new InvalidProofBundle(`Invalid proof bundle: ${error?.message ?? 'Unknown error'}`);
+    }
+  }
+
+  toJSON(): object {
+    return {
+      registration: this.registration.toJSON(),
+      resolutions: this.resolutions,
+      createdAt: this.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Returns the DIDs of every signature on the registration, as declared by their `kid` JWS headers.
+   */
+  static #signerDids(registration: DapRegistration): string[] {
+    if (registration.signature === undefined) {
+      throw new InvalidProofBundle('Invalid proof bundle: Registration is not signed');
+    }
+
+    const dids = new Set<string>();
+    for (const jws of [registration.signature, registration.previousSignature, registration.registrySignature]) {
+      if (jws === undefined) {
+        continue;
+      }
+
+      let kid: unknown;
+      try {
+        kid = (Convert.base64Url(jws.split('.')[0]).toObject() as { kid?: unknown }).kid;
+      } catch {
+        kid = undefined;
+      }
+      if (typeof kid !== 'string') {
+        throw new InvalidProofBundle('Invalid proof bundle: Expected every signature to declare a key ID ("kid")');
+      }
+
+      dids.add(kid.split('#')[0]);
+    }
+
+    return [...dids];
+  }
+}
+
+/**
+ * Error thrown when a proof bundle is malformed or cannot be verified.
+ */
+export class InvalidProofBundle extends Error {
+  /**
+   * Creates a new InvalidProofBundle error.
+   * @param message - Optional custom error message. Defaults to 'Invalid proof bundle'.
+   */
+  constructor(message?: string) {
+    super(message ?? 'Invalid proof bundle');
+    this.name = 'InvalidProofBundle';
+  }
+}
\ No newline at end of file
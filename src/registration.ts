@@ -1,7 +1,15 @@
-import { BearerDid } from '@web5/dids';
+import type { VerificationContext } from './context';
+import type { GeneralJws } from './crypto';
+import type { DidResolutionResult } from '@web5/dids';
+import type { DidResolverInterface } from './did-resolver';
+
+import { BearerDid, Did, UniversalResolver } from '@web5/dids';
 
 import { Crypto } from './crypto';
+import { Dap } from './dap';
+import { DidResolver } from './did-resolver';
 import { RegistrationId } from './registration-id';
+import { RegistrationRequestSchema, validateSchema } from './schemas';
 
 /**
  * Information about the DAP Registry
@@ -23,6 +31,24 @@ export interface RegistrationModel {
   did: string;
   domain: string;
   signature: string;
+
+  /** ISO 8601 timestamp of when the registration was created. */
+  createdAt?: string;
+
+  /** ISO 8601 timestamp after which the registration is no longer valid. */
+  expiresAt?: string;
+
+  /** Incremented each time the registration is renewed or rotated, starting at 1. */
+  version?: number;
+
+  /** The ID of the registration this registration replaces. */
+  previousId?: string;
+
+  /** Detached JWS over this registration's digest, signed by the DID of the replaced registration when rotating DIDs. */
+  previousSignature?: string;
+
+  /** Detached JWS over this registration's digest, signed by the registry's `did:web` DID as proof of acceptance. */
+  registrySignature?: string;
 }
 
 export interface RegistrationRequest extends RegistrationModel {}
@@ -31,18 +57,68 @@ export interface RegistrationResponse {
   proof: RegistrationModel;
 }
 
+export interface RegistrationListResponse {
+  proofs: RegistrationModel[];
+}
+
 export interface ErrorResponse {
   error: {
     message: string;
   };
 }
 
+/**
+ * Options passed to {@link DapRegistration.parse} and {@link DapRegistration.verify}
+ */
+export type RegistrationVerifyOptions = VerificationContext & {
+  /** The time at which expiry is checked. Defaults to the time reported by {@link VerificationContext.clock}. */
+  now?: Date
+}
+
+/**
+ * Options passed to {@link DapRegistration.parseBatch}
+ */
+export type RegistrationBatchOptions = RegistrationVerifyOptions & {
+  /** The maximum number of registrations verified at the same time, at least 1. Defaults to 8. */
+  concurrency?: number
+}
+
+/**
+ * The outcome of parsing a single registration with {@link DapRegistration.parseBatch}
+ */
+export type RegistrationBatchResult = {
+  /** The position of the registration in the batch. */
+  index: number
+} & ({
+  success: true
+  /** The parsed and verified registration. */
+  registration: DapRegistration
+} | {
+  success: false
+  /** Why the registration was rejected, e.g. an {@link InvalidDapRegistration}, `InvalidJws` or `InvalidRegistrationId`. */
+  error: Error
+});
+
+/**
+ * Options passed to {@link DapRegistration.renew} and {@link DapRegistration.rotate}
+ */
+export type RegistrationSuccessorOptions = {
+  /** When the new registration expires. If omitted, the new registration does not expire. */
+  expiresAt?: Date
+}
+
 export class DapRegistration {
   id: RegistrationId;
   handle: string;
   did: string;
   domain: string;
   signature?: string;
+  createdAt?: Date;
+  expiresAt?: Date;
+  version?: number;
+  previousId?: RegistrationId;
+  previousSignature?: string;
+  registrySignature?: string;
 
   /**
    * Constructor is primarily for intended for internal use. For a better developer experience,
@@ -59,20 +135,27 @@ export class DapRegistration {
 
   /**
    * Computes a digest of the payload by:
-   * 1. Initializing `payload` to a JSON object containing the registration ID, handle, DID, and domain.
+   * 1. Initializing `payload` to a JSON object containing the registration ID, handle, DID, and domain,
+   *    plus `createdAt`, `expiresAt`, `version` and `previousId` when they are set.
    * 2. JSON Serializing the payload as per [RFC 8785: JSON Canonicalization Scheme](https://datatracker.ietf.org/doc/html/rfc8785).
    * 3. Computing the SHA-256 hash of the canonicalized payload.
    *
    * @returns The SHA-256 hash of the canonicalized payload, represented as a byte array.
    */
   async computeDigest(): Promise<Uint8Array> {
-    const payload = {
+    const payload: Omit<RegistrationModel, 'signature' | 'previousSignature' | 'registrySignature'> = {
       id: this.id.toString(),
       handle: this.handle,
       did: this.did,
       domain: this.domain
     };
 
+    // Optional fields are omitted when unset so that registrations without them keep their digest.
+    if (this.createdAt !== undefined) payload.createdAt = this.createdAt.toISOString();
+    if (this.expiresAt !== undefined) payload.expiresAt = this.expiresAt.toISOString();
+    if (this.version !== undefined) payload.version = this.version;
+    if (this.previousId !== undefined) payload.previousId = this.previousId.toString();
+
     const digest = await Crypto.digest(payload);
 
     return digest;
@@ -80,12 +163,21 @@ export class DapRegistration {
 
   /**
    * Creates a new DAP registration with the specified parameters.
-   * @param params - The parameters required for creating a DAP registration. 
+   * The handle and domain are normalized, see {@link Dap.normalize}.
+   * @param params - The parameters required for creating a DAP registration. If `expiresAt` is provided,
+   *   the registration also records when it was created and starts at version 1.
    * @returns {@link DapRegistration}
    */
-  static create({ handle, did, domain }: { handle: string, did: string, domain: string }): DapRegistration {
+  static create({ handle, did, domain, expiresAt }: { handle: string, did: string, domain: string, expiresAt?: Date }): DapRegistration {
     const id = RegistrationId.create();
-    const registration = new DapRegistration(id, handle, did, domain);
+    const registration = new DapRegistration(id, Dap.normalizeHandle(handle), did, Dap.normalizeDomain(domain));
+
+    if (expiresAt !== undefined) {
+      registration.createdAt = id.extractDate();
+      registration.expiresAt = expiresAt;
+      registration.version = 1;
+    }
+
     registration.validate();
 
     return registration;
@@ -93,24 +185,116 @@ export class DapRegistration {
 
   /**
    * Parses a JSON message into a DAP registration.
+   * @param rawRequest - The registration, either as a JSON string or an already parsed object.
+   * @param options - Options used when verifying the registration's signature.
    * @returns A promise that resolves to a {@link DapRegistration} instance.
    */
-  static async parse(rawRequest: RegistrationRequest | string): Promise<DapRegistration> {
+  static async parse(rawRequest: RegistrationRequest | string, options: RegistrationVerifyOptions = {}): Promise<DapRegistration> {
     const jsonRegistration = DapRegistration.#rawToRegistrationRequest(rawRequest);
+    const registration = DapRegistration.fromModel(jsonRegistration);
+
+    registration.validate();
+    await registration.verify(options);
+
+    return registration;
+  }
+
+  /**
+   * Parses and verifies many registrations, e.g. when importing a registry, without failing on the first
+   * invalid one. Each DID is resolved at most once for the whole batch.
+   * @param rawRequests - The registrations, each either as a JSON string or an already parsed object.
+   * @param options - Options used when verifying the registrations' signatures.
+   * @returns A promise that resolves to the outcome of each registration, in the same order as the input.
+   */
+  static async parseBatch(rawRequests: (RegistrationRequest | string)[], { concurrency = 8, ...options }: RegistrationBatchOptions = {}): Promise<RegistrationBatchResult[]> {
+    const verifyOptions = { ...options, didResolver: new DedupingDidResolver(options.didResolver ?? DidResolver) };
+    const results: RegistrationBatchResult[] = new Array(rawRequests.length);
 
+    let next = 0;
+    const worker = async () => {
+      while (next < rawRequests.length) {
+        const index = next++;
+        try {
+          const registration = await DapRegistration.parse(rawRequests[index], verifyOptions);
+          results[index] = { index, success: true, registration };
+        } catch (error: any) {
+          results[index] = { index, success: false, error: error instanceof Error ? error : new Error(String(error)) };
+        }
+      }
+    };
+
+    const workers = Number.isNaN(Number(concurrency)) ? 1 : Math.floor(Math.min(Number(concurrency), rawRequests.length));
+    await Promise.all(Array.from({ length: Math.max(1, workers) }, worker));
+
+    return results;
+  }
+
+  /**
+   * Creates a DAP registration from its JSON representation without validating or verifying it.
+   * Intended for registrations that were verified before being persisted, use {@link DapRegistration.parse} otherwise.
+   * @param model - The JSON representation of the registration.
+   * @returns {@link DapRegistration}
+   */
+  static fromModel(model: RegistrationModel): DapRegistration {
     const registration = new DapRegistration(
-      RegistrationId.parse(jsonRegistration.id),
-      jsonRegistration.handle,
-      jsonRegistration.did,
-      jsonRegistration.domain,
-      jsonRegistration.signature
+      RegistrationId.parse(model.id),
+      model.handle,
+      model.did,
+      model.domain,
+      model.signature
     );
 
-    await registration.verify();
+    registration.createdAt = model.createdAt === undefined ? undefined : new Date(model.createdAt);
+    registration.expiresAt = model.expiresAt === undefined ? undefined : new Date(model.expiresAt);
+    registration.version = model.version;
+    registration.previousId = model.previousId === undefined ? undefined : RegistrationId.parse(model.previousId);
+    registration.previousSignature = model.previousSignature;
+    registration.registrySignature = model.registrySignature;
 
     return registration;
   }
 
+  /**
+   * Creates and signs a renewal of this registration, bound to the same DID.
+   * @param did - The DID the registration is bound to.
+   * @param options - Options for the new registration.
+   * @returns A promise that resolves to the signed renewal.
+   * @throws {InvalidDapRegistration} If `did` is not the DID of this registration.
+   */
+  async renew(did: BearerDid, options: RegistrationSuccessorOptions = {}): Promise<DapRegistration> {
+    if (did.uri !== this.did) {
+      throw new InvalidDapRegistration(`Invalid DAP Registration: Expected renewal to be signed by ${this.did}`);
+    }
+
+    const successor = this.#createSuccessor(did.uri, options);
+    await successor.sign(did);
+
+    return successor;
+  }
+
+  /**
+   * Creates a registration that moves this registration's handle to a new DID. The new registration is
+   * signed by the new DID and counter-signed by this registration's DID as proof that the handover is authorized.
+   * @param previousDid - The DID this registration is bound to.
+   * @param newDid - The DID the handle is moved to.
+   * @param options - Options for the new registration.
+   * @returns A promise that resolves to the signed registration.
+   * @throws {InvalidDapRegistration} If `previousDid` is not the DID of this registration.
+   */
+  async rotate(previousDid: BearerDid, newDid: BearerDid, options: RegistrationSuccessorOptions = {}): Promise<DapRegistration> {
+    if (previousDid.uri !== this.did) {
+      throw new InvalidDapRegistration(`Invalid DAP Registration: Expected rotation to be authorized by ${this.did}`);
+    }
+
+    const successor = this.#createSuccessor(newDid.uri, options);
+    await successor.sign(newDid);
+
+    const payload = await successor.computeDigest();
+    successor.previousSignature = await Crypto.sign({ did: previousDid, payload, detached: true });
+
+    return successor;
+  }
+
   /**
    * Signs the provided payload and produces a Compact JSON Web Signature (JWS).
    *
@@ -125,25 +309,87 @@ export class DapRegistration {
 
   /**
    * Validates the data in the DAP Registration.
-   * @throws if the registration is invalid
+   * @throws {InvalidDapRegistration} listing every invalid field if the registration is invalid
    */
   validate(): void {
-    // To be implemented...
+    const violations: string[] = [];
+
+    if (!(this.id instanceof RegistrationId)) {
+      violations.push('id: Expected a RegistrationId');
+    } else {
+      try { // Ensure that the ID round-trips, e.g. that it still has the "reg" prefix.
+        RegistrationId.parse(this.id.toString());
+      } catch (error: any) {
+        violations.push(`id: ${error?.message ?? 'Invalid Registration ID'}`);
+      }
+    }
+
+    if (!Dap.isValidHandle(this.handle)) {
+      violations.push(`handle: Expected 1 to ${Dap.HANDLE_MAX_LENGTH} letters, digits, ".", "_" or "-"`);
+    } else if (Dap.normalizeHandle(this.handle) !== this.handle) {
+      violations.push(`handle: Expected normalized handle "${Dap.normalizeHandle(this.handle)}"`);
+    } else if (Dap.isConfusable(this.handle)) {
+      violations.push('handle: Contains characters that can be confused with characters from another script');
+    }
+
+    if (!Dap.isValidDomain(this.domain)) {
+      violations.push('domain: Expected a valid hostname');
+    } else if (Dap.normalizeDomain(this.domain) !== this.domain) {
+      violations.push(`domain: Expected normalized domain "${Dap.normalizeDomain(this.domain)}"`);
+    } else if (Dap.isConfusableDomain(this.domain)) {
+      violations.push('domain: Contains characters that can be confused with characters from another script');
+    }
+
+    if (typeof this.did !== 'string' || Did.parse(this.did) === null) {
+      violations.push('did: Expected a valid DID URI');
+    }
+
+    const isValidDate = (date?: Date) => date instanceof Date && !isNaN(date.getTime());
+    if (this.createdAt !== undefined && !isValidDate(this.createdAt)) {
+      violations.push('createdAt: Expected a valid date');
+    }
+    if (this.expiresAt !== undefined && !isValidDate(this.expiresAt)) {
+      violations.push('expiresAt: Expected a valid date');
+    } else if (isValidDate(this.createdAt) && isValidDate(this.expiresAt) && this.expiresAt! <= this.createdAt!) {
+      violations.push('expiresAt: Expected to be after createdAt');
+    }
+
+    if (this.version !== undefined && !(Number.isInteger(this.version) && this.version >= 1)) {
+      violations.push('version: Expected a positive integer');
+    } else if (this.previousId !== undefined && (this.version ?? 1) <= 1) {
+      violations.push('version: Expected a version greater than 1 when previousId is set');
+    }
+
+    if (violations.length > 0) {
+      throw new InvalidDapRegistration(`Invalid DAP Registration: ${violations.join('; ')}`, violations);
+    }
   }
 
   /**
    * Verifies the integrity of the cryptographic signature
+   * @param options - Options used when verifying the signature.
    * @throws if the signature is invalid
    * @throws if the signer's DID does not match the specified did.
+   * @throws if the registration has expired or was created in the future.
    * @returns Signer's DID
    */
-  async verify(): Promise<string> {
+  async verify({ now, ...context }: RegistrationVerifyOptions = {}): Promise<string> {
+    now ??= context.clock?.() ?? new Date();
+
     if (this.signature === undefined) {
       throw new InvalidDapRegistration('Invalid DAP Registration: Signature is missing')
     }
 
+    if (this.expiresAt !== undefined && this.expiresAt <= now) {
+      throw new InvalidDapRegistration(`Invalid DAP Registration: Expired at ${this.expiresAt.toISOString()}`);
+    }
+
+    if (this.createdAt !== undefined && this.createdAt > now) {
+      throw new InvalidDapRegistration(`Invalid DAP Registration: Created in the future at ${this.createdAt.toISOString()}`);
+    }
+
     const payload = await this.computeDigest();
-    const signerDid = await Crypto.verify({ jws: this.signature, detachedPayload: payload });
+    const signerDid = await Crypto.verify({ jws: this.signature, detachedPayload: payload, ...context });
 
     if (this.did !== signerDid) { // Ensure that the DID that signed the payload matches the DID in the registration.
       throw new InvalidDapRegistration('Invalid DAP Registration: Expected registration to be signed by the specified DID');
@@ -152,6 +398,101 @@ export class DapRegistration {
     return signerDid;
   }
 
+  /**
+   * Verifies that this registration is a valid successor of a previous registration of the same handle,
+   * i.e. a renewal or DID rotation created with {@link DapRegistration.renew} or {@link DapRegistration.rotate}.
+   *
+   * @remarks
+   * This does not verify this registration's own signature, use {@link DapRegistration.verify} for that.
+   *
+   * @param previous - The registration being replaced.
+   * @param context - The dependencies used when verifying the previous DID's signature.
+   * @throws {InvalidDapRegistration} If the registrations are out of order or the rotation is not authorized by the previous DID.
+   */
+  async verifySuccessor(previous: DapRegistration, context: RegistrationVerifyOptions = {}): Promise<void> {
+    if (this.handle !== previous.handle || this.domain !== previous.domain) {
+      throw new InvalidDapRegistration('Invalid DAP Registration: Expected successor for the same handle and domain');
+    }
+
+    if (this.previousId?.toString() !== previous.id.toString()) {
+      throw new InvalidDapRegistration(`Invalid DAP Registration: Expected previousId to be ${previous.id}`);
+    }
+
+    if (this.version !== (previous.version ?? 1) + 1) {
+      throw new InvalidDapRegistration(`Invalid DAP Registration: Expected version ${(previous.version ?? 1) + 1}`);
+    }
+
+    if (this.id.extractTimestamp() < previous.id.extractTimestamp()) {
+      throw new InvalidDapRegistration('Invalid DAP Registration: Expected successor to be created after the previous registration');
+    }
+
+    if (this.did === previous.did) {
+      return; // A renewal is authorized by its own signature.
+    }
+
+    if (this.previousSignature === undefined) {
+      throw new InvalidDapRegistration('Invalid DAP Registration: Expected DID rotation to be signed by the previous DID');
+    }
+
+    const payload = await this.computeDigest();
+    const signerDid = await Crypto.verify({ jws: this.previousSignature, detachedPayload: payload, ...context });
+
+    if (signerDid !== previous.did) {
+      throw new InvalidDapRegistration('Invalid DAP Registration: Expected DID rotation to be signed by the previous DID');
+    }
+  }
+
+  /**
+   * Counter-signs the registration on behalf of the registry as proof that the registry accepted it.
+   * @param registryDid - The registry's DID, which clients expect to be the `did:web` DID of the registration's domain.
+   */
+  async counterSign(registryDid: BearerDid): Promise<void> {
+    const payload = await this.computeDigest();
+    this.registrySignature = await Crypto.sign({ did: registryDid, payload, detached: true });
+  }
+
+  /**
+   * Verifies the registry's counter-signature against the `did:web` DID of the registration's domain.
+   * @param context - The dependencies used when verifying the signature.
+   * @throws {InvalidDapRegistration} If the counter-signature is missing or not signed by the domain's DID.
+   * @returns The registry's DID
+   */
+  async verifyCounterSignature(context: RegistrationVerifyOptions = {}): Promise<string> {
+    if (this.registrySignature === undefined) {
+      throw new InvalidDapRegistration('Invalid DAP Registration: Registry signature is missing');
+    }
+
+    const payload = await this.computeDigest();
+    const signerDid = await Crypto.verify({ jws: this.registrySignature, detachedPayload: payload, ...context });
+
+    const domainDid = `did:web:${this.domain}`;
+    if (signerDid !== domainDid) { // Ensure that the registry signing the registration operates the registration's domain.
+      throw new InvalidDapRegistration(`Invalid DAP Registration: Expected registry signature by ${domainDid}`);
+    }
+
+    return signerDid;
+  }
+
+  /**
+   * Combines the registration's signatures into a single detached General JWS, which can be verified
+   * with {@link Crypto.verifyGeneral} against {@link DapRegistration.computeDigest}.
+   * @returns The registrant's signature, followed by the previous DID's and the registry's signatures when present.
+   * @throws {InvalidDapRegistration} If the registration is not signed.
+   */
+  toGeneralJws(): GeneralJws {
+    if (this.signature === undefined) {
+      throw new InvalidDapRegistration('Invalid DAP Registration: Signature is missing');
+    }
+
+    const compactSignatures = [this.signature, this.previousSignature, this.registrySignature].filter(jws => jws !== undefined);
+    const signatures = compactSignatures.map(jws => {
+      const [ protectedHeader, , signature ] = jws.split('.');
+      return { protected: protectedHeader, signature };
+    });
+
+    return { signatures };
+  }
+
   toJSON(): object {
     return {
       id: this.id.toString(),
@@ -159,22 +500,75 @@ export class DapRegistration {
       did: this.did,
       domain: this.domain,
       signature: this.signature,
+      createdAt: this.createdAt?.toISOString(),
+      expiresAt: this.expiresAt?.toISOString(),
+      version: this.version,
+      previousId: this.previousId?.toString(),
+      previousSignature: this.previousSignature,
+      registrySignature: this.registrySignature,
     };
   }
 
+  #createSuccessor(did: string, { expiresAt }: RegistrationSuccessorOptions): DapRegistration {
+    const id = RegistrationId.create();
+    const successor = new DapRegistration(id, this.handle, did, this.domain);
+
+    successor.createdAt = id.extractDate();
+    successor.expiresAt = expiresAt;
+    successor.version = (this.version ?? 1) + 1;
+    successor.previousId = this.id;
+    successor.validate();
+
+    return successor;
+  }
+
   static #rawToRegistrationRequest(rawRequest: RegistrationRequest | string): RegistrationRequest {
+    let jsonRequest: unknown;
     try {
-      return typeof rawRequest === 'string' ? JSON.parse(rawRequest) : rawRequest;
+      jsonRequest = typeof rawRequest === 'string' ? JSON.parse(rawRequest) : rawRequest;
     } catch (error: any) {
       const errorMessage = error?.message ?? 'Unknown error';
       throw new InvalidDapRegistration(`Failed to parse DAP registration: ${errorMessage}`);
     }
+
+    const violations = validateSchema(RegistrationRequestSchema, jsonRequest);
+    if (violations.length > 0) {
+      throw new InvalidDapRegistration(`Invalid DAP Registration: ${violations.join('; ')}`, violations);
+    }
+
+    return jsonRequest as RegistrationRequest;
+  }
+}
+
+/**
+ * Resolves each DID at most once by sharing resolutions, including in-flight ones, between callers.
+ * Dereferencing DID URLs resolves through the shared resolutions as well.
+ */
+class DedupingDidResolver extends UniversalResolver {
+  private readonly resolutions = new Map<string, Promise<DidResolutionResult>>();
+
+  constructor(private readonly didResolver: DidResolverInterface) {
+    super({ didResolvers: [] });
+  }
+
+  async resolve(didUri: string): Promise<DidResolutionResult> {
+    let resolution = this.resolutions.get(didUri);
+    if (!resolution) {
+      resolution = this.didResolver.resolve(didUri);
+      this.resolutions.set(didUri, resolution);
+    }
+
+    return await resolution;
   }
 }
 
 export class InvalidDapRegistration extends Error {
-  constructor(message?: string) {
+  /** The individual validation failures, if the error was raised by {@link DapRegistration.validate}. */
+  readonly violations: string[];
+
+  constructor(message?: string, violations: string[] = []) {
     super(message ?? 'Invalid DAP Registration');
     this.name = 'InvalidDapRegistration';
+    this.violations = violations;
   }
 }
\ No newline at end of file
@@ -1,21 +1,586 @@
-import type { DapRegistration, ErrorResponse, RegistrationResponse } from './registration';
+import type { BearerDid } from '@web5/dids';
+import type { VerificationContext } from './context';
+import type { Fetch } from './dap-resolver';
+import type { JsonSchema } from './schemas';
+import type { ErrorResponse, RegistrationListResponse, RegistrationMetadata, RegistrationResponse } from './registration';
+
+import { Crypto } from './crypto';
+import { Dap } from './dap';
+import { DapResolver } from './dap-resolver';
+import { DidConfiguration } from './did-configuration';
+import { DapRegistration, InvalidDapRegistration } from './registration';
+import { DapRequestAuth } from './request-auth';
+import { ErrorResponseSchema, RegistrationListResponseSchema, RegistrationMetadataSchema, RegistrationResponseSchema, validateSchema, WellKnownRegistrySchema } from './schemas';
+
+/**
+ * Options passed to the {@link DapRegistryClient} constructor
+ */
+export type DapRegistryClientOptions = VerificationContext & {
+  /** The function used to make HTTP requests to the registry. Defaults to the global `fetch`. */
+  fetch?: Fetch
+  /** How long each request may take, in milliseconds, before it is aborted. Defaults to 10 seconds. */
+  timeout?: number
+  /** How failed requests are retried. */
+  retry?: RegistryRetryOptions
+  /**
+   * If set, `register`, `update` and `deregister` requests are authenticated with a bearer token signed by
+   * this DID, see {@link DapRequestAuth}. Registries may require it to prove control of the registered DID.
+   */
+  signer?: BearerDid
+}
+
+/**
+ * How {@link DapRegistryClient} retries failed requests.
+ *
+ * Requests rejected with `429` or `503` are retried after the `Retry-After` delay if the registry sends
+ * one, or after an exponential backoff with jitter otherwise. Idempotent requests, i.e. every request but
+ * `register`, are also retried after network failures, timeouts and `502`/`504` responses.
+ */
+export type RegistryRetryOptions = {
+  /** The maximum number of retries. Defaults to 2. Set to 0 to disable retries. */
+  retries?: number
+  /** The base delay of the exponential backoff, in milliseconds. Defaults to 250. */
+  minDelay?: number
+  /** The maximum delay between attempts, in milliseconds. Requests asking to retry later than this fail instead. Defaults to 10 seconds. */
+  maxDelay?: number
+}
+
+/**
+ * Options accepted by every {@link DapRegistryClient} request
+ */
+export type RegistryRequestOptions = {
+  /** Aborts the request, including any pending retry. */
+  signal?: AbortSignal
+  /** Overrides {@link DapRegistryClientOptions.timeout} for this request. */
+  timeout?: number
+}
+
+/**
+ * Where {@link DapRegistryClient.discover} looks for a domain's registry:
+ *
+ * - `did`: the `DAPRegistry` service of the domain's `did:web` DID.
+ * - `well-known`: the `registryUrl` of the domain's `/.well-known/dap-registry` document.
+ */
+export type RegistryDiscoverySource = 'did' | 'well-known';
+
+/**
+ * Options passed to {@link DapRegistryClient.discover}
+ */
+export type DapRegistryDiscoveryOptions = DapRegistryClientOptions & RegistryRequestOptions & {
+  /** The sources to try, in order. Defaults to `['did', 'well-known']`. */
+  sources?: RegistryDiscoverySource[]
+  /** The method of the DID that will be registered, e.g. `dht`. If set, registries that do not support it are rejected. */
+  didMethod?: string
+}
 
 export class DapRegistryClient {
+  /** The path of the document a domain serves to advertise its registry. */
+  static readonly WELL_KNOWN_PATH = '/.well-known/dap-registry';
+
+  /** The registry's base URL, without a trailing slash. Registry paths such as `/daps` are relative to it. */
   registryBaseUrl: string;
+  /** The registry's metadata, if the client was created with {@link DapRegistryClient.discover}. */
+  metadata?: RegistrationMetadata;
+  private readonly fetch: Fetch;
+  private readonly timeout: number;
+  private readonly retry: Required<RegistryRetryOptions>;
+  private readonly signer?: BearerDid;
+  private readonly context: VerificationContext;
+
+  constructor(url: string, { fetch = globalThis.fetch, timeout = 10_000, retry = {}, signer, ...context }: DapRegistryClientOptions = {}) {
+    const { origin, pathname } = new URL(url);
+    this.registryBaseUrl = `${origin}${pathname.replace(/\/+$/, '')}`;
+    this.fetch = fetch;
+    this.timeout = timeout;
+    this.retry = { retries: 2, minDelay: 250, maxDelay: 10_000, ...retry };
+    this.signer = signer;
+    this.context = context;
+  }
+
+  /**
+   * Discovers the registry of a domain and creates a client for it.
+   *
+   * @remarks
+   * The registry is located through the domain's `did:web` DID and/or its `/.well-known/dap-registry`
+   * document, see {@link RegistryDiscoverySource}. Its metadata is then fetched to ensure that it accepts
+   * registrations, and supports {@link DapRegistryDiscoveryOptions.didMethod} if given.
+   *
+   * @param domain - The domain whose registry should be discovered. It is normalized first.
+   * @param options - Options used to discover the registry and configure the client.
+   * @returns A promise that resolves to a client for the registry, with its {@link DapRegistryClient.metadata}.
+   * @throws {RegistryDiscoveryError} If no registry is found, or it is disabled or does not support the DID method.
+   */
+  static async discover(domain: string, { sources = ['did', 'well-known'], didMethod, signal, ...options }: DapRegistryDiscoveryOptions = {}): Promise<DapRegistryClient> {
+    domain = Dap.normalizeDomain(domain);
+
+    let registryUrl: string | undefined;
+    const failures: string[] = [];
+    for (const source of sources) {
+      try {
+        registryUrl = source === 'did'
+          ? await new DapResolver(options).resolveRegistryUrl(domain, { signal })
+          : DapRegistryClient.#parseRegistryUrl(await DapRegistryClient.#fetchWellKnownRegistryUrl(domain, options, signal));
+        break;
+      } catch (error: any) {
+        signal?.throwIfAborted();
+        failures.push(`${source}: ${error?.message ?? 'Unknown error'}`);
+      }
+    }
+
+    if (registryUrl === undefined) {
+      throw new RegistryDiscoveryError(`Failed to discover the registry of ${domain}: ${failures.join('; ')}`);
+    }
+
+    const client = new DapRegistryClient(registryUrl, options);
+    const metadata = await client.getMetadata({ signal });
+
+    if (!metadata.enabled) {
+      throw new RegistryDiscoveryError(`Registry at ${client.registryBaseUrl} does not accept registrations`);
+    }
+
+    const method = didMethod?.startsWith('did:') ? didMethod.split(':')[1] : didMethod;
+    if (method !== undefined && metadata.supportedDidMethods && !metadata.supportedDidMethods.includes(method)) {
+      throw new RegistryDiscoveryError(`Registry at ${client.registryBaseUrl} does not support DID method "${method}". Supported methods: ${metadata.supportedDidMethods.join(', ')}`);
+    }
+
+    client.metadata = metadata;
+    return client;
+  }
+
+  /**
+   * Registers a signed DAP registration with the registry.
+   * @param registration - The signed registration.
+   * @param options - Options for the request.
+   * @returns The registry's proof of the accepted registration.
+   */
+  async register(registration: DapRegistration, options?: RegistryRequestOptions): Promise<RegistrationResponse> {
+    return await this.request<RegistrationResponse>('POST', '/daps', RegistrationResponseSchema, registration, options);
+  }
+
+  /**
+   * Fetches the registration of a handle.
+   * @param handle - The registered handle. It is normalized before the lookup.
+   * @param options - Options for the request.
+   * @returns The registration of the handle.
+   */
+  async getRegistration(handle: string, options?: RegistryRequestOptions): Promise<RegistrationResponse> {
+    return await this.request<RegistrationResponse>('GET', `/daps/${encodeURIComponent(Dap.normalizeHandle(handle))}`, RegistrationResponseSchema, undefined, options);
+  }
+
+  /**
+   * Fetches the registration of a handle and verifies it using the client's {@link VerificationContext}.
+   * @param handle - The registered handle. It is normalized before the lookup.
+   * @param options - Options for the request.
+   * @returns The verified registration of the handle.
+   * @throws {InvalidDapRegistration} If the registration is invalid, not signed by its DID, or for another handle.
+   */
+  async getVerifiedRegistration(handle: string, options?: RegistryRequestOptions): Promise<DapRegistration> {
+    const { proof } = await this.getRegistration(handle, options);
+    const registration = await DapRegistration.parse(proof, this.context);
+
+    if (registration.handle !== Dap.normalizeHandle(handle)) {
+      throw new InvalidDapRegistration(`Invalid DAP Registration: Expected registration for handle ${Dap.normalizeHandle(handle)}`);
+    }
+
+    return registration;
+  }
+
+  /**
+   * Checks that the registry operating a registration controls the registration's domain, i.e. that the DID
+   * that counter-signed the registration is linked to the domain by the domain's DID Configuration.
+   * @param registration - A registration served by the registry, e.g. by {@link DapRegistryClient.getVerifiedRegistration}.
+   * @returns A promise that resolves to the registry's DID.
+   * @throws {InvalidDapRegistration} If the registration is not counter-signed by the registry.
+   * @throws {InvalidDomainLinkage} If the registry's DID is not linked to the registration's domain.
+   */
+  async verifyDomainLinkage(registration: DapRegistration): Promise<string> {
+    if (registration.registrySignature === undefined) {
+      throw new InvalidDapRegistration('Invalid DAP Registration: Registry signature is missing');
+    }
+
+    const registryDid = await Crypto.verify({ jws: registration.registrySignature, detachedPayload: await registration.computeDigest(), ...this.context });
+    await DidConfiguration.verifyLinkage(registration.domain, registryDid, { fetch: this.fetch, ...this.context });
+
+    return registryDid;
+  }
+
+  /**
+   * Fetches all registrations bound to a DID.
+   * @param did - The registered DID.
+   * @param options - Options for the request.
+   * @returns The registrations of the DID.
+   */
+  async lookupByDid(did: string, options?: RegistryRequestOptions): Promise<RegistrationListResponse> {
+    return await this.request<RegistrationListResponse>('GET', `/daps?did=${encodeURIComponent(did)}`, RegistrationListResponseSchema, undefined, options);
+  }
+
+  /**
+   * Fetches information about the registry, such as whether registration is enabled.
+   * @param options - Options for the request.
+   * @returns The registry's metadata.
+   */
+  async getMetadata(options?: RegistryRequestOptions): Promise<RegistrationMetadata> {
+    return await this.request<RegistrationMetadata>('GET', '/metadata', RegistrationMetadataSchema, undefined, options);
+  }
+
+  /**
+   * Replaces the registration of a handle, e.g. to renew it or bind it to a new DID.
+   * @param registration - A new signed registration for the same handle, see {@link DapRegistration.renew} and {@link DapRegistration.rotate}.
+   * @param options - Options for the request.
+   * @returns The registry's proof of the updated registration.
+   */
+  async update(registration: DapRegistration, options?: RegistryRequestOptions): Promise<RegistrationResponse> {
+    return await this.request<RegistrationResponse>('PUT', `/daps/${encodeURIComponent(registration.handle)}`, RegistrationResponseSchema, registration, options);
+  }
+
+  /**
+   * Releases a handle.
+   *
+   * @remarks
+   * The registry requires a freshly created registration for the handle, signed by the DID the
+   * handle is currently bound to, as proof that the caller controls the registration.
+   *
+   * @param registration - A new signed registration for the handle and its current DID.
+   * @param options - Options for the request.
+   * @returns The registration that was released.
+   */
+  async deregister(registration: DapRegistration, options?: RegistryRequestOptions): Promise<RegistrationResponse> {
+    return await this.request<RegistrationResponse>('DELETE', `/daps/${encodeURIComponent(registration.handle)}`, RegistrationResponseSchema, registration, options);
+  }
+
+  /**
+   * Sends a request to the registry, retrying it as per {@link RegistryRetryOptions}.
+   * @throws {RegistryError} A subclass matching the last failure if the request does not succeed.
+   * @throws The abort reason of {@link RegistryRequestOptions.signal} if the request is aborted.
+   */
+  private async request<T>(method: string, path: string, responseSchema: JsonSchema, body?: object, { signal, timeout = this.timeout }: RegistryRequestOptions = {}): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      signal?.throwIfAborted();
+      try {
+        return await this.send<T>(method, path, responseSchema, body, signal, timeout);
+      } catch (error: any) {
+        signal?.throwIfAborted();
+
+        const delay = this.getRetryDelay(error, attempt, method !== 'POST');
+        if (delay === undefined) {
+          throw error;
+        }
+
+        await DapRegistryClient.#sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Returns how long to wait before retrying a failed request, or `undefined` if it should not be retried.
+   */
+  private getRetryDelay(error: unknown, attempt: number, isIdempotent: boolean): number | undefined {
+    const { retries, minDelay, maxDelay } = this.retry;
+    if (attempt >= retries) {
+      return undefined;
+    }
+
+    const status = error instanceof RegistryError ? error.status : undefined;
+    const isRetryable = status === 429 || status === 503
+      || (isIdempotent && (error instanceof RegistryNetworkError || status === 502 || status === 504));
+    if (!isRetryable) {
+      return undefined;
+    }
+
+    const retryAfter = DapRegistryClient.#parseRetryAfter((error as RegistryRateLimitedError | RegistryServerError).retryAfter);
+    if (retryAfter !== undefined) {
+      return retryAfter <= maxDelay ? retryAfter : undefined;
+    }
+
+    const backoff = Math.min(maxDelay, minDelay * 2 ** attempt);
+    return Math.random() * backoff; // Full jitter spreads out retries from concurrent clients.
+  }
 
-  constructor(url: string) {
-    this.registryBaseUrl = new URL(url).origin;
+  /**
+   * Sends a single request to the registry and parses the JSON response, validating it against the response schema.
+   */
+  private async send<T>(method: string, path: string, responseSchema: JsonSchema, body: object | undefined, signal: AbortSignal | undefined, timeout: number): Promise<T> {
+    const timeoutSignal = AbortSignal.timeout(timeout);
+    const requestSignal = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+
+    const url = `${this.registryBaseUrl}${path}`;
+    const json = body === undefined ? undefined : JSON.stringify(body);
+
+    const headers: Record<string, string> = {};
+    if (json !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (this.signer && method !== 'GET') { // Every attempt gets a fresh token, as registries reject reused nonces.
+      headers['Authorization'] = `Bearer ${await DapRequestAuth.createToken({ did: this.signer, method, url, body: json })}`;
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetch(url, { method, headers, body: json, signal: requestSignal });
+    } catch (error: any) {
+      if (timeoutSignal.aborted) {
+        throw new RegistryTimeoutError(`Registry at ${this.registryBaseUrl} did not respond within ${timeout}ms`);
+      }
+      throw new RegistryNetworkError(`Failed to reach registry at ${this.registryBaseUrl}: ${error?.message ?? 'Unknown error'}`);
+    }
+
+    const details: RegistryErrorDetails = {
+      status: response.status,
+      requestId: response.headers.get('X-Request-Id') ?? undefined,
+    };
+
+    let responseBody: unknown;
+    try {
+      responseBody = await response.json();
+    } catch (error: any) {
+      if (timeoutSignal.aborted) {
+        throw new RegistryTimeoutError(`Registry at ${this.registryBaseUrl} did not respond within ${timeout}ms`, details);
+      }
+      if (response.ok) {
+        throw new RegistryMalformedResponseError(`Registry returned malformed JSON: ${error?.message ?? 'Unknown error'}`, details);
+      }
+      responseBody = undefined; // Error responses without a JSON body are still mapped by their status code.
+    }
+
+    if (!response.ok) {
+      const isErrorResponse = validateSchema(ErrorResponseSchema, responseBody).length === 0;
+      const message = isErrorResponse ? (responseBody as ErrorResponse).error.message : undefined;
+      throw DapRegistryClient.#toRegistryError(message ?? `Registry responded with status ${response.status}`, details, response);
+    }
+
+    const violations = validateSchema(responseSchema, responseBody);
+    if (violations.length > 0) {
+      throw new RegistryMalformedResponseError(`Registry returned an invalid response: ${violations.join('; ')}`, details);
+    }
+
+    return responseBody as T;
+  }
+
+  /**
+   * Fetches the registry URL advertised by a domain's `/.well-known/dap-registry` document, with the same
+   * timeouts and retries as registry requests.
+   */
+  static async #fetchWellKnownRegistryUrl(domain: string, options: DapRegistryClientOptions, signal?: AbortSignal): Promise<string> {
+    const client = new DapRegistryClient(`https://${domain}`, options);
+    const url = `${client.registryBaseUrl}${DapRegistryClient.WELL_KNOWN_PATH}`;
+
+    try {
+      const { registryUrl } = await client.request<{ registryUrl: string }>('GET', DapRegistryClient.WELL_KNOWN_PATH, WellKnownRegistrySchema, undefined, { signal });
+      return registryUrl;
+    } catch (error: any) {
+      if (error instanceof RegistryError && !(error instanceof RegistryMalformedResponseError) && error.status !== undefined) {
+        throw new Error(`${url} responded with status ${error.status}`);
+      }
+      throw new Error(`${url} failed: ${error?.message ?? 'Unknown error'}`);
+    }
   }
 
-  async register(registration: DapRegistration): Promise<RegistrationResponse | ErrorResponse> {
-    const response = await fetch(`${this.registryBaseUrl}/daps`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(registration),
+  /**
+   * Ensures that a registry URL from a `/.well-known/dap-registry` document is an absolute HTTPS URL, so that
+   * discovery over HTTPS cannot hand off to a cleartext registry. {@link DapResolver.resolveRegistryUrl} does
+   * the same for `DAPRegistry` service endpoints.
+   * @throws {Error} If the URL is not a valid HTTPS URL.
+   */
+  static #parseRegistryUrl(registryUrl: string): string {
+    let url: URL;
+    try {
+      url = new URL(registryUrl);
+    } catch {
+      throw new Error(`Expected registry URL to be an absolute URL but got "${registryUrl}"`);
+    }
+
+    if (url.protocol !== 'https:') {
+      throw new Error(`Expected registry URL to use HTTPS but got "${registryUrl}"`);
+    }
+
+    return url.href;
+  }
+
+  /**
+   * Parses a `Retry-After` header, given either in seconds or as an HTTP date, into milliseconds.
+   */
+  static #parseRetryAfter(retryAfter?: string): number | undefined {
+    if (retryAfter === undefined || retryAfter.trim() === '') {
+      return undefined;
+    }
+
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(retryAfter);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Waits for the given delay, unless the signal is aborted first.
+   */
+  static async #sleep(delay: number, signal?: AbortSignal): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener('abort', onAbort, { once: true });
     });
+  }
+
+  static #toRegistryError(message: string, details: RegistryErrorDetails, response: Response): RegistryError {
+    switch (true) {
+      case response.status === 400 || response.status === 422:
+        return new RegistryValidationError(message, details);
+      case response.status === 401 || response.status === 403:
+        return new RegistryUnauthorizedError(message, details);
+      case response.status === 404:
+        return new RegistryNotFoundError(message, details);
+      case response.status === 409:
+        return new RegistryConflictError(message, details);
+      case response.status === 429:
+        return new RegistryRateLimitedError(message, { ...details, retryAfter: response.headers.get('Retry-After') ?? undefined });
+      case response.status >= 500:
+        return new RegistryServerError(message, { ...details, retryAfter: response.headers.get('Retry-After') ?? undefined });
+      default:
+        return new RegistryError(message, details);
+    }
+  }
+}
+
+/**
+ * Details about a failed registry request, attached to every {@link RegistryError}.
+ */
+export type RegistryErrorDetails = {
+  /** The HTTP status code of the response, if the registry responded. */
+  status?: number
+  /** The request ID reported by the registry in the `X-Request-Id` response header. */
+  requestId?: string
+}
+
+/**
+ * Base class for errors thrown by {@link DapRegistryClient}.
+ */
+export class RegistryError extends Error {
+  /** The HTTP status code of the response, if the registry responded. */
+  readonly status?: number;
+  /** The request ID reported by the registry, if any. */
+  readonly requestId?: string;
+
+  constructor(message?: string, { status, requestId }: RegistryErrorDetails = {}) {
+    super(message ?? 'Registry request failed');
+    this.name = 'RegistryError';
+    this.status = status;
+    this.requestId = requestId;
+  }
+}
+
+/**
+ * Error thrown when the registry rejects a request as malformed (HTTP 400 or 422).
+ */
+export class RegistryValidationError extends RegistryError {
+  constructor(message?: string, details?: RegistryErrorDetails) {
+    super(message ?? 'Registry rejected the request as invalid', details);
+    this.name = 'RegistryValidationError';
+  }
+}
+
+/**
+ * Error thrown when the registry does not accept the request's signature (HTTP 401 or 403).
+ */
+export class RegistryUnauthorizedError extends RegistryError {
+  constructor(message?: string, details?: RegistryErrorDetails) {
+    super(message ?? 'Registry rejected the request signature', details);
+    this.name = 'RegistryUnauthorizedError';
+  }
+}
+
+/**
+ * Error thrown when the requested registration does not exist (HTTP 404).
+ */
+export class RegistryNotFoundError extends RegistryError {
+  constructor(message?: string, details?: RegistryErrorDetails) {
+    super(message ?? 'Registration not found', details);
+    this.name = 'RegistryNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when the handle is already taken (HTTP 409).
+ */
+export class RegistryConflictError extends RegistryError {
+  constructor(message?: string, details?: RegistryErrorDetails) {
+    super(message ?? 'Handle is already taken', details);
+    this.name = 'RegistryConflictError';
+  }
+}
+
+/**
+ * Error thrown when the registry is rate limiting the caller (HTTP 429).
+ */
+export class RegistryRateLimitedError extends RegistryError {
+  /** The raw value of the `Retry-After` response header, if any. */
+  readonly retryAfter?: string;
+
+  constructor(message?: string, { retryAfter, ...details }: RegistryErrorDetails & { retryAfter?: string } = {}) {
+    super(message ?? 'Registry rate limit exceeded', details);
+    this.name = 'RegistryRateLimitedError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Error thrown when the registry fails to process the request (HTTP 5xx).
+ */
+export class RegistryServerError extends RegistryError {
+  /** The raw value of the `Retry-After` response header, if any, e.g. for 503 responses. */
+  readonly retryAfter?: string;
+
+  constructor(message?: string, { retryAfter, ...details }: RegistryErrorDetails & { retryAfter?: string } = {}) {
+    super(message ?? 'Registry server error', details);
+    this.name = 'RegistryServerError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Error thrown when the registry cannot be reached, e.g. due to a network failure or timeout.
+ */
+export class RegistryNetworkError extends RegistryError {
+  constructor(message?: string, details?: RegistryErrorDetails) {
+    super(message ?? 'Failed to reach registry', details);
+    this.name = 'RegistryNetworkError';
+  }
+}
+
+/**
+ * Error thrown when the registry does not respond within the configured timeout.
+ */
+export class RegistryTimeoutError extends RegistryNetworkError {
+  constructor(message?: string, details?: RegistryErrorDetails) {
+    super(message ?? 'Registry request timed out', details);
+    this.name = 'RegistryTimeoutError';
+  }
+}
+
+/**
+ * Error thrown when a successful registry response is not valid JSON.
+ */
+export class RegistryMalformedResponseError extends RegistryError {
+  constructor(message?: string, details?: RegistryErrorDetails) {
+    super(message ?? 'Registry returned a malformed response', details);
+    this.name = 'RegistryMalformedResponseError';
+  }
+}
 
-    return await response.json();
+/**
+ * Error thrown when a domain's registry cannot be discovered, or is unsuitable for the registration.
+ */
+export class RegistryDiscoveryError extends RegistryError {
+  constructor(message?: string, details?: RegistryErrorDetails) {
+    super(message ?? 'Registry discovery failed', details);
+    this.name = 'RegistryDiscoveryError';
   }
 }
\ No newline at end of file
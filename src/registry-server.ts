@@ -0,0 +1,366 @@
+import type { BearerDid } from '@web5/dids';
+import type { VerificationContext } from './context';
+import type { DidConfigurationDocument } from './did-configuration';
+import type { DapRequestVerifier } from './request-auth';
+import type { ErrorResponse, RegistrationListResponse, RegistrationMetadata, RegistrationModel, RegistrationResponse } from './registration';
+
+import { Dap } from './dap';
+import { DidConfiguration } from './did-configuration';
+import { DapRegistration } from './registration';
+import { RegistrationId } from './registration-id';
+
+/**
+ * Storage used by {@link DapRegistryServer} to persist registrations.
+ */
+export interface RegistrationStore {
+  /** Returns the registration of a handle, if any. */
+  get(handle: string): Promise<RegistrationModel | undefined>;
+
+  /** Returns all registrations bound to a DID. */
+  findByDid(did: string): Promise<RegistrationModel[]>;
+
+  /**
+   * Creates the registration of a handle unless the handle is already registered. Checking and writing must
+   * happen atomically, so that concurrent registrations of the same handle cannot both succeed.
+   * @returns `true` if the registration was created, `false` if the handle is already registered.
+   */
+  create(registration: RegistrationModel): Promise<boolean>;
+
+  /** Creates or replaces the registration of a handle. */
+  put(registration: RegistrationModel): Promise<void>;
+
+  /** Removes the registration of a handle. */
+  delete(handle: string): Promise<void>;
+}
+
+/**
+ * A {@link RegistrationStore} that keeps registrations in memory. Intended for tests and development.
+ */
+export class InMemoryRegistrationStore implements RegistrationStore {
+  private readonly registrations = new Map<string, RegistrationModel>();
+
+  async get(handle: string): Promise<RegistrationModel | undefined> {
+    return this.registrations.get(handle);
+  }
+
+  async findByDid(did: string): Promise<RegistrationModel[]> {
+    return [...this.registrations.values()].filter(registration => registration.did === did);
+  }
+
+  async create(registration: RegistrationModel): Promise<boolean> {
+    if (this.registrations.has(registration.handle)) {
+      return false;
+    }
+
+    this.registrations.set(registration.handle, registration);
+    return true;
+  }
+
+  async put(registration: RegistrationModel): Promise<void> {
+    this.registrations.set(registration.handle, registration);
+  }
+
+  async delete(handle: string): Promise<void> {
+    this.registrations.delete(handle);
+  }
+}
+
+/**
+ * Options passed to the {@link DapRegistryServer} constructor
+ */
+export type DapRegistryServerOptions = VerificationContext & {
+  /** The domain the registry serves DAPs for. Registrations for other domains are rejected. */
+  domain: string
+  /** Information about the registry, served at `GET /metadata`. Defaults to `{ enabled: true }`. */
+  metadata?: RegistrationMetadata
+  /** The storage used to persist registrations. Defaults to an {@link InMemoryRegistrationStore}. */
+  store?: RegistrationStore
+  /**
+   * The registry's DID, used to counter-sign accepted registrations. Clients expect it to be the
+   * `did:web` DID of {@link DapRegistryServerOptions.domain}. If omitted, registrations are not counter-signed.
+   */
+  registryDid?: BearerDid
+  /**
+   * If set, updates and deregistrations must carry a {@link DapRequestAuth} bearer token signed by the DID of
+   * the current registration. If omitted, the signed registration in the request body is the only proof required.
+   */
+  requestVerifier?: DapRequestVerifier
+  /**
+   * The DID Configuration linking {@link DapRegistryServerOptions.registryDid} to the domain, served at
+   * `GET /.well-known/did-configuration.json` if the registry is served at the root of the domain.
+   */
+  didConfiguration?: DidConfigurationDocument
+}
+
+/**
+ * A framework-agnostic reference implementation of a DAP registry, serving the API consumed by
+ * {@link DapRegistryClient}:
+ *
+ * - `GET /metadata`
+ * - `POST /daps`
+ * - `GET /daps?did=<did>`
+ * - `GET /daps/:handle`
+ * - `PUT /daps/:handle`
+ * - `DELETE /daps/:handle`
+ * - `GET /.well-known/did-configuration.json`, if a DID Configuration is given
+ *
+ * @example
+ * ```ts
+ * const registry = new DapRegistryServer({ domain: 'domain.com' });
+ * Bun.serve({ fetch: request => registry.handle(request) });
+ * ```
+ */
+export class DapRegistryServer {
+  readonly domain: string;
+  readonly metadata: RegistrationMetadata;
+  private readonly store: RegistrationStore;
+  private readonly context: VerificationContext;
+  private readonly registryDid?: BearerDid;
+  private readonly requestVerifier?: DapRequestVerifier;
+  private readonly didConfiguration?: DidConfigurationDocument;
+
+  constructor({ domain, metadata = { enabled: true }, store = new InMemoryRegistrationStore(), registryDid, requestVerifier, didConfiguration, ...context }: DapRegistryServerOptions) {
+    this.domain = domain;
+    this.metadata = metadata;
+    this.store = store;
+    this.context = context;
+    this.registryDid = registryDid;
+    this.requestVerifier = requestVerifier;
+    this.didConfiguration = didConfiguration;
+  }
+
+  /**
+   * Handles a registry API request.
+   * @param request - The incoming request.
+   * @returns The response to send back to the client. Failures are returned as an {@link ErrorResponse}.
+   */
+  async handle(request: Request): Promise<Response> {
+    const requestId = crypto.randomUUID();
+    const { pathname, searchParams } = new URL(request.url);
+    const [ collection, handle, ...rest ] = pathname.split('/').filter(segment => segment.length > 0);
+
+    let response: Response;
+    try {
+      if (collection === 'metadata' && handle === undefined) {
+        response = await DapRegistryServer.#route(request, { GET: () => this.getMetadata() });
+      } else if (pathname === DidConfiguration.WELL_KNOWN_PATH && this.didConfiguration) {
+        response = await DapRegistryServer.#route(request, { GET: () => Response.json(this.didConfiguration) });
+      } else if (collection === 'daps' && handle === undefined) {
+        response = await DapRegistryServer.#route(request, {
+          GET: () => this.lookupByDid(searchParams.get('did')),
+          POST: () => this.register(request),
+        });
+      } else if (collection === 'daps' && rest.length === 0) {
+        const decodedHandle = Dap.normalizeHandle(DapRegistryServer.#decodeHandle(handle));
+        response = await DapRegistryServer.#route(request, {
+          GET: () => this.getRegistration(decodedHandle),
+          PUT: () => this.update(decodedHandle, request),
+          DELETE: () => this.deregister(decodedHandle, request),
+        });
+      } else {
+        throw new HttpError(404, 'Not found');
+      }
+    } catch (error: any) {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof HttpError ? error.message : 'Internal server error';
+      response = Response.json({ error: { message } } satisfies ErrorResponse, { status });
+    }
+
+    response.headers.set('X-Request-Id', requestId);
+
+    return response;
+  }
+
+  private getMetadata(): Response {
+    return Response.json(this.metadata satisfies RegistrationMetadata);
+  }
+
+  private async getRegistration(handle: string): Promise<Response> {
+    const proof = await this.store.get(handle);
+    if (!proof) {
+      throw new HttpError(404, `Handle "${handle}" is not registered`);
+    }
+
+    return Response.json({ proof } satisfies RegistrationResponse);
+  }
+
+  private async lookupByDid(did: string | null): Promise<Response> {
+    if (!did) {
+      throw new HttpError(400, 'Expected "did" query parameter');
+    }
+
+    const proofs = await this.store.findByDid(did);
+
+    return Response.json({ proofs } satisfies RegistrationListResponse);
+  }
+
+  private async register(request: Request): Promise<Response> {
+    if (!this.metadata.enabled) {
+      throw new HttpError(403, 'Registration is disabled');
+    }
+
+    const registration = await this.parseRegistration(request);
+
+    if (await this.store.get(registration.handle)) { // Fail fast before counter-signing, the store enforces uniqueness below.
+      throw new HttpError(409, `Handle "${registration.handle}" is already registered`);
+    }
+
+    const proof = await this.countersign(registration);
+    if (!await this.store.create(proof)) {
+      throw new HttpError(409, `Handle "${registration.handle}" is already registered`);
+    }
+
+    return Response.json({ proof } satisfies RegistrationResponse, { status: 201 });
+  }
+
+  private async update(handle: string, request: Request): Promise<Response> {
+    const currentModel = await this.getCurrentRegistration(handle);
+    await this.authenticate(request, currentModel);
+
+    const registration = await this.parseRegistration(request, handle);
+    const current = DapRegistration.fromModel(currentModel);
+
+    if (registration.previousId !== undefined || registration.did !== current.did) { // Renewals and rotations must chain onto the current registration.
+      try {
+        await registration.verifySuccessor(current, this.context);
+      } catch (error: any) {
+        throw new HttpError(403, error?.message ?? `Expected update to be authorized by ${current.did}`);
+      }
+    }
+
+    const proof = await this.countersign(registration);
+    await this.store.put(proof);
+
+    return Response.json({ proof } satisfies RegistrationResponse);
+  }
+
+  private async deregister(handle: string, request: Request): Promise<Response> {
+    const current = await this.getCurrentRegistration(handle);
+    await this.authenticate(request, current);
+
+    const registration = await this.parseRegistration(request, handle);
+
+    if (registration.did !== current.did) {
+      throw new HttpError(403, `Expected deregistration to be signed by ${current.did}`);
+    }
+
+    await this.store.delete(handle);
+
+    return Response.json({ proof: current } satisfies RegistrationResponse);
+  }
+
+  /**
+   * Counter-signs the registration if the registry has a DID.
+   * @returns The registration to store.
+   */
+  private async countersign(registration: DapRegistration): Promise<RegistrationModel> {
+    registration.registrySignature = undefined; // Never persist a registry signature supplied by the client.
+    if (this.registryDid) {
+      await registration.counterSign(this.registryDid);
+    }
+
+    return registration.toJSON() as RegistrationModel;
+  }
+
+  /**
+   * Returns the stored registration of a handle that is about to be changed.
+   * @throws {HttpError} If the handle is not registered.
+   */
+  private async getCurrentRegistration(handle: string): Promise<RegistrationModel> {
+    const current = await this.store.get(handle);
+    if (!current) {
+      throw new HttpError(404, `Handle "${handle}" is not registered`);
+    }
+
+    return current;
+  }
+
+  /**
+   * Ensures that the request is authenticated by the DID of the current registration, if a request verifier is configured.
+   * @throws {HttpError} If the request is not authenticated, or authenticated by another DID.
+   */
+  private async authenticate(request: Request, current: RegistrationModel): Promise<void> {
+    if (!this.requestVerifier) {
+      return;
+    }
+
+    let did: string;
+    try {
+      did = await this.requestVerifier.verify(request);
+    } catch (error: any) {
+      throw new HttpError(401, error?.message ?? 'Invalid request authentication');
+    }
+
+    if (did !== current.did) {
+      throw new HttpError(403, `Expected request to be authenticated by ${current.did}`);
+    }
+  }
+
+  /**
+   * Parses and verifies the registration in the request body.
+   * @param request - The request containing a JSON {@link RegistrationRequest}.
+   * @param handle - The handle from the request path, which the registration must match.
+   * @throws {HttpError} If the registration is invalid or not accepted by this registry.
+   */
+  private async parseRegistration(request: Request, handle?: string): Promise<DapRegistration> {
+    let registration: DapRegistration;
+    try {
+      registration = await DapRegistration.parse(await request.text(), this.context);
+    } catch (error: any) {
+      throw new HttpError(400, error?.message ?? 'Invalid DAP Registration');
+    }
+
+    if (handle !== undefined && registration.handle !== handle) {
+      throw new HttpError(400, `Expected registration for handle "${handle}"`);
+    }
+
+    if (registration.domain !== this.domain) {
+      throw new HttpError(400, `Expected registration for domain "${this.domain}"`);
+    }
+
+    const [, method ] = registration.did.split(':');
+    const { supportedDidMethods } = this.metadata;
+    if (supportedDidMethods && !supportedDidMethods.includes(method)) {
+      throw new HttpError(400, `DID method "${method}" is not supported. Supported methods: ${supportedDidMethods.join(', ')}`);
+    }
+
+    const current = handle === undefined ? undefined : await this.store.get(handle);
+    const isReplay = current && (current.id === registration.id.toString() || RegistrationId.parse(current.id).extractTimestamp() > registration.id.extractTimestamp());
+    if (isReplay) { // Reject replays of the current or older registrations.
+      throw new HttpError(409, 'Expected registration to be newer than the current registration');
+    }
+
+    return registration;
+  }
+
+  static #route(request: Request, handlers: Record<string, () => Response | Promise<Response>>): Response | Promise<Response> {
+    const handler = handlers[request.method];
+    if (!handler) {
+      throw new HttpError(405, `Method ${request.method} not allowed`);
+    }
+
+    return handler();
+  }
+
+  /**
+   * Decodes the handle path segment.
+   * @throws {HttpError} If the segment contains a malformed percent-encoding.
+   */
+  static #decodeHandle(handle: string): string {
+    try {
+      return decodeURIComponent(handle);
+    } catch {
+      throw new HttpError(400, `Expected a valid percent-encoded handle but got "${handle}"`);
+    }
+  }
+}
+
+/**
+ * Error thrown by {@link DapRegistryServer} handlers and returned to the client as an {@link ErrorResponse}.
+ */
+class HttpError extends Error {
+  constructor(readonly status: number, message?: string) {
+    super(message ?? 'Registry request failed');
+    this.name = 'HttpError';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,264 @@
+import type { BearerDid } from '@web5/dids';
+
+import { Convert } from '@web5/common';
+import { Sha256 } from '@web5/crypto';
+
+import type { VerificationContext } from './context';
+
+import { Crypto } from './crypto';
+
+/**
+ * The claims of a request authentication token, binding it to a single HTTP request.
+ */
+export interface RequestAuthClaims {
+  /** The DID of the caller. */
+  iss: string;
+
+  /** The HTTP method of the request. */
+  htm: string;
+
+  /** The URL of the request, without fragment. */
+  htu: string;
+
+  /** The Base64URL encoded SHA-256 hash of the request body. Omitted if the request has no body. */
+  bdh?: string;
+
+  /** The time at which the token was issued, in seconds since the epoch. */
+  iat: number;
+
+  /** The time at which the token expires, in seconds since the epoch. */
+  exp: number;
+
+  /** A unique nonce, used to reject replayed tokens. */
+  jti: string;
+}
+
+/**
+ * Options passed to {@link DapRequestAuth.createToken}
+ */
+export type RequestAuthTokenOptions = {
+  /** The DID of the caller, used to sign the token. */
+  did: BearerDid
+  /** The HTTP method of the request. */
+  method: string
+  /** The URL of the request. */
+  url: string
+  /** The body of the request, if any. */
+  body?: string | Uint8Array
+  /** How long the token is valid for, in seconds. Defaults to {@link DapRequestAuth.DEFAULT_TTL}. */
+  ttl?: number
+  /** The time at which the token is issued. Defaults to now. */
+  now?: Date
+}
+
+/**
+ * Storage used by {@link DapRequestVerifier} to remember the nonces of accepted tokens until they expire.
+ */
+export interface NonceStore {
+  /**
+   * Records a nonce.
+   * @returns `false` if the nonce was already recorded and has not expired yet, i.e. the token is replayed.
+   */
+  add(nonce: string, expiresAt: Date): Promise<boolean>;
+}
+
+/**
+ * A {@link NonceStore} that keeps nonces in memory. Suitable for a single registry instance.
+ */
+export class InMemoryNonceStore implements NonceStore {
+  private readonly nonces = new Map<string, number>();
+
+  async add(nonce: string, expiresAt: Date): Promise<boolean> {
+    const now = Date.now();
+    for (const [storedNonce, storedExpiresAt] of this.nonces) { // Forget nonces of expired tokens, which are rejected anyway.
+      if (storedExpiresAt <= now) {
+        this.nonces.delete(storedNonce);
+      }
+    }
+
+    if (this.nonces.has(nonce)) {
+      return false;
+    }
+
+    this.nonces.set(nonce, expiresAt.getTime());
+    return true;
+  }
+}
+
+/**
+ * Options passed to the {@link DapRequestVerifier} constructor
+ */
+export type DapRequestVerifierOptions = VerificationContext & {
+  /** The storage used to reject replayed tokens. Defaults to an {@link InMemoryNonceStore}. */
+  nonceStore?: NonceStore
+  /** The longest validity, in seconds, accepted for a token. Defaults to 300. */
+  maxTtl?: number
+  /** The tolerated difference, in seconds, between the clocks of the caller and the verifier. Defaults to 30. */
+  clockSkew?: number
+}
+
+/**
+ * Authenticates HTTP requests to a registry with a short-lived JWT, signed by the caller's DID and sent as
+ * a bearer token, e.g. `Authorization: Bearer <token>`.
+ *
+ * The token is bound to the request's method, URL and body, and carries a nonce so that it can only be used once.
+ */
+export class DapRequestAuth {
+  /** The media type declared in the `typ` JWS header of request authentication tokens. */
+  static readonly TOKEN_TYPE = 'dap-request+jwt';
+
+  /** The default validity of a token, in seconds. */
+  static readonly DEFAULT_TTL = 60;
+
+  /**
+   * Creates a token authenticating a single request.
+   * @param options - The request to authenticate and the DID to sign with.
+   * @returns A promise that resolves to the token, as a Compact JWS.
+   */
+  static async createToken({ did, method, url, body, ttl = DapRequestAuth.DEFAULT_TTL, now = new Date() }: RequestAuthTokenOptions): Promise<string> {
+    const iat = Math.floor(now.getTime() / 1000);
+
+    const claims: RequestAuthClaims = {
+      iss: did.uri,
+      htm: method.toUpperCase(),
+      htu: normalizeUrl(url),
+      bdh: await DapRequestAuth.hashBody(body),
+      iat,
+      exp: iat + ttl,
+      jti: crypto.randomUUID(),
+    };
+
+    return await Crypto.sign({ did, payload: Convert.object(claims).toUint8Array(), detached: false, typ: DapRequestAuth.TOKEN_TYPE });
+  }
+
+  /**
+   * Returns a copy of the request with an `Authorization` header carrying a token signed by the DID.
+   * @param request - The request to authenticate.
+   * @param options - The DID to sign with and the validity of the token.
+   * @returns A promise that resolves to the authenticated request.
+   */
+  static async signRequest(request: Request, options: Pick<RequestAuthTokenOptions, 'did' | 'ttl' | 'now'>): Promise<Request> {
+    const body = new Uint8Array(await request.clone().arrayBuffer());
+    const token = await DapRequestAuth.createToken({ ...options, method: request.method, url: request.url, body });
+
+    const signed = new Request(request);
+    signed.headers.set('Authorization', `Bearer ${token}`);
+
+    return signed;
+  }
+
+  /**
+   * Computes the `bdh` claim of a request body.
+   * @returns The Base64URL encoded SHA-256 hash of the body, or `undefined` if the body is empty.
+   */
+  static async hashBody(body?: string | Uint8Array): Promise<string | undefined> {
+    const bytes = typeof body === 'string' ? Convert.string(body).toUint8Array() : body;
+    if (bytes === undefined || bytes.length === 0) {
+      return undefined;
+    }
+
+    return Convert.uint8Array(await Sha256.digest({ data: bytes })).toBase64Url();
+  }
+}
+
+/**
+ * Verifies requests authenticated with {@link DapRequestAuth}, e.g. by {@link DapRegistryServer}.
+ */
+export class DapRequestVerifier {
+  private readonly nonceStore: NonceStore;
+  private readonly maxTtl: number;
+  private readonly clockSkew: number;
+  private readonly context: VerificationContext;
+
+  constructor({ nonceStore = new InMemoryNonceStore(), maxTtl = 300, clockSkew = 30, ...context }: DapRequestVerifierOptions = {}) {
+    this.nonceStore = nonceStore;
+    this.maxTtl = maxTtl;
+    this.clockSkew = clockSkew;
+    this.context = context;
+  }
+
+  /**
+   * Verifies the bearer token of a request. The request body is left unread.
+   * @param request - The incoming request.
+   * @returns A promise that resolves to the authenticated DID.
+   * @throws {InvalidRequestAuth} If the token is missing, invalid, expired, replayed, or issued for another request.
+   */
+  async verify(request: Request): Promise<string> {
+    const [ scheme, token ] = request.headers.get('Authorization')?.split(' ') ?? [];
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      throw new InvalidRequestAuth('Missing bearer token in Authorization header');
+    }
+
+    let signer: string;
+    try {
+      signer = await Crypto.verify({ jws: token, typ: DapRequestAuth.TOKEN_TYPE, verificationRelationships: ['authentication'], ...this.context });
+    } catch (error: any) {
+      throw new InvalidRequestAuth(`Invalid request authentication token: ${error?.message ?? 'Unknown error'}`);
+    }
+
+    let claims: RequestAuthClaims;
+    try {
+      claims = Convert.base64Url(token.split('.')[1]).toObject() as RequestAuthClaims;
+    } catch {
+      throw new InvalidRequestAuth('Invalid request authentication token: Malformed claims');
+    }
+    if (typeof claims !== 'object' || claims === null) {
+      throw new InvalidRequestAuth('Invalid request authentication token: Malformed claims');
+    }
+
+    if (claims.iss !== signer) {
+      throw new InvalidRequestAuth('Invalid request authentication token: Expected issuer ("iss") to be the signer\'s DID');
+    }
+    if (claims.htm !== request.method.toUpperCase() || claims.htu !== normalizeUrl(request.url)) {
+      throw new InvalidRequestAuth('Invalid request authentication token: Issued for another request');
+    }
+
+    const now = Math.floor((this.context.clock?.() ?? new Date()).getTime() / 1000);
+    if (!Number.isInteger(claims.iat) || !Number.isInteger(claims.exp) || claims.exp <= claims.iat) {
+      throw new InvalidRequestAuth('Invalid request authentication token: Expected integer "iat" and "exp" claims');
+    }
+    if (claims.exp - claims.iat > this.maxTtl) {
+      throw new InvalidRequestAuth(`Invalid request authentication token: Expected validity of at most ${this.maxTtl} seconds`);
+    }
+    if (claims.iat > now + this.clockSkew || claims.exp <= now - this.clockSkew) {
+      throw new InvalidRequestAuth('Invalid request authentication token: Expired or not yet valid');
+    }
+
+    const bodyHash = await DapRequestAuth.hashBody(new Uint8Array(await request.clone().arrayBuffer()));
+    if (claims.bdh !== bodyHash) {
+      throw new InvalidRequestAuth('Invalid request authentication token: Body does not match');
+    }
+
+    if (typeof claims.jti !== 'string' || claims.jti.length === 0) {
+      throw new InvalidRequestAuth('Invalid request authentication token: Missing nonce ("jti")');
+    }
+    if (!await this.nonceStore.add(`${signer}:${claims.jti}`, new Date((claims.exp + this.clockSkew) * 1000))) {
+      throw new InvalidRequestAuth('Invalid request authentication token: Token was already used');
+    }
+
+    return signer;
+  }
+}
+
+/**
+ * Returns the URL without fragment, as covered by the `htu` claim.
+ */
+function normalizeUrl(url: string): string {
+  const normalized = new URL(url);
+  normalized.hash = '';
+  return normalized.href;
+}
+
+/**
+ * Error thrown when a request is not properly authenticated.
+ */
+export class InvalidRequestAuth extends Error {
+  /**
+   * Creates a new InvalidRequestAuth error.
+   * @param message - Optional custom error message. Defaults to 'Invalid request authentication'.
+   */
+  constructor(message?: string) {
+    super(message ?? 'Invalid request authentication');
+    this.name = 'InvalidRequestAuth';
+  }
+}
\ No newline at end of file
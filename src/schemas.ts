@@ -0,0 +1,124 @@
+import errorResponseSchema from '../schemas/error-response.json';
+import registrationListResponseSchema from '../schemas/registration-list-response.json';
+import registrationMetadataSchema from '../schemas/registration-metadata.json';
+import registrationRequestSchema from '../schemas/registration-request.json';
+import registrationResponseSchema from '../schemas/registration-response.json';
+import wellKnownRegistrySchema from '../schemas/well-known-registry.json';
+
+/**
+ * The subset of JSON Schema (draft 2020-12) used to describe the DAP registry wire format.
+ */
+export type JsonSchema = {
+  $schema?: string
+  title?: string
+  description?: string
+  type?: 'string' | 'integer' | 'number' | 'boolean' | 'object' | 'array'
+  format?: 'date-time'
+  minLength?: number
+  minimum?: number
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+}
+
+/** Matches RFC 3339 date-time strings, as required by the `date-time` format. */
+const DATE_TIME_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+// The schemas are maintained as plain JSON files in `schemas/`, published as `@tbd54566975/dap/schemas/*.json`
+// so that services written in other languages can validate the same wire format.
+
+/**
+ * JSON Schema of a signed DAP registration, see {@link RegistrationRequest}.
+ */
+export const RegistrationRequestSchema = registrationRequestSchema as JsonSchema;
+
+/**
+ * JSON Schema of a registry response carrying a single registration, see {@link RegistrationResponse}.
+ */
+export const RegistrationResponseSchema = registrationResponseSchema as JsonSchema;
+
+/**
+ * JSON Schema of a registry response carrying all registrations of a DID, see {@link RegistrationListResponse}.
+ */
+export const RegistrationListResponseSchema = registrationListResponseSchema as JsonSchema;
+
+/**
+ * JSON Schema of a registry error response, see {@link ErrorResponse}.
+ */
+export const ErrorResponseSchema = errorResponseSchema as JsonSchema;
+
+/**
+ * JSON Schema of a registry's metadata, see {@link RegistrationMetadata}.
+ */
+export const RegistrationMetadataSchema = registrationMetadataSchema as JsonSchema;
+
+/**
+ * JSON Schema of the `/.well-known/dap-registry` document a domain serves to advertise its registry.
+ */
+export const WellKnownRegistrySchema = wellKnownRegistrySchema as JsonSchema;
+
+/**
+ * Validates a value against one of the DAP JSON Schemas.
+ * @param schema - The schema to validate against.
+ * @param value - The value to validate, e.g. a parsed JSON request body.
+ * @param path - The location of the value, used as the prefix of each violation. Defaults to the root.
+ * @returns The violations, e.g. `handle: Expected string`. Empty if the value is valid.
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path: string = ''): string[] {
+  const location = path || '(root)';
+
+  if (schema.type !== undefined && !matchesType(schema.type, value)) {
+    return [`${location}: Expected ${schema.type}`];
+  }
+
+  const violations: string[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push(`${location}: Expected at least ${schema.minLength} characters`);
+    }
+    if (schema.format === 'date-time' && (!DATE_TIME_REGEX.test(value) || isNaN(Date.parse(value)))) {
+      violations.push(`${location}: Expected an RFC 3339 date-time`);
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    violations.push(`${location}: Expected a number greater than or equal to ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value) && schema.items !== undefined) {
+    value.forEach((item, index) => violations.push(...validateSchema(schema.items!, item, `${path}[${index}]`)));
+  }
+
+  if (schema.type === 'object') {
+    const object = value as Record<string, unknown>;
+    const prefix = path ? `${path}.` : '';
+
+    for (const property of schema.required ?? []) {
+      if (object[property] === undefined) {
+        violations.push(`${prefix}${property}: Required`);
+      }
+    }
+
+    for (const [property, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (object[property] !== undefined) {
+        violations.push(...validateSchema(propertySchema, object[property], `${prefix}${property}`));
+      }
+    }
+  }
+
+  return violations;
+}
+
+function matchesType(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
\ No newline at end of file
@@ -1,34 +1,187 @@
+/**
+ * The optional components of a URN, see {@link https://datatracker.ietf.org/doc/html/rfc8141#section-2.3 | RFC 8141, § 2.3}
+ */
+export type UrnComponents = {
+  /** The r-component, following `?+`, passing parameters to a resolver. */
+  rComponent?: string
+  /** The q-component, following `?=`, passing parameters to the named resource. */
+  qComponent?: string
+  /** The f-component, following `#`, identifying a part of the named resource. */
+  fComponent?: string
+}
+
+/**
+ * A Uniform Resource Name as per {@link https://datatracker.ietf.org/doc/html/rfc8141 | RFC 8141}, e.g. `urn:btc:addr:bc1q...`.
+ *
+ * Characters outside of the allowed set must be percent-encoded. The NSS and components are kept as given,
+ * and only normalized when comparing URNs with {@link Urn.equals}.
+ */
 export class Urn {
   private static readonly PREFIX = 'urn:';
   private static readonly SEPARATOR = ':';
-  private static readonly URN_PATTERN = new RegExp(`^${Urn.PREFIX}([^${Urn.SEPARATOR}]+)${Urn.SEPARATOR}(.+)$`);
 
-  private readonly urn: string;
+  /** NID = (alphanum) 0*30(ldh) (alphanum), i.e. 2 to 32 letters, digits or hyphens. */
+  private static readonly NID_PATTERN = /^[a-z0-9][a-z0-9-]{0,30}[a-z0-9]$/i;
+
+  /** A `pchar` as per RFC 3986, § 3.3, other than a percent-encoded octet. */
+  private static readonly PCHAR_PATTERN = /^[a-z0-9\-._~!$&'()*+,;=:@]$/i;
+
+  /** A percent-encoded octet. */
+  private static readonly PERCENT_ENCODED_PATTERN = /^%[0-9a-f]{2}$/i;
+
+  readonly rComponent?: string;
+  readonly qComponent?: string;
+  readonly fComponent?: string;
 
+  /**
+   * Creates a new URN.
+   * @param nid - The namespace identifier, e.g. `btc`.
+   * @param nss - The namespace specific string, e.g. `addr:bc1q...`.
+   * @param components - The optional r-, q- and f-components.
+   * @throws {InvalidUrn} If any part is not valid as per RFC 8141.
+   */
   constructor(
     public readonly nid: string,
-    public readonly nss: string
+    public readonly nss: string,
+    { rComponent, qComponent, fComponent }: UrnComponents = {}
   ) {
-    this.urn = `${Urn.PREFIX}${nid}:${nss}`;
+    if (!Urn.NID_PATTERN.test(nid)) {
+      throw new InvalidUrn(`Invalid URN: Expected namespace identifier (NID) of 2 to 32 letters, digits or hyphens, not starting or ending with a hyphen, but got "${nid}"`);
+    }
+
+    Urn.#validateComponent(nss, 'namespace specific string (NSS)', '/');
+    if (rComponent !== undefined) {
+      Urn.#validateComponent(rComponent, 'r-component', '/?');
+    }
+    if (qComponent !== undefined) {
+      Urn.#validateComponent(qComponent, 'q-component', '/?');
+    }
+    if (fComponent !== undefined) {
+      Urn.#validateComponent(fComponent, 'f-component', '/?', true);
+    }
+
+    this.rComponent = rComponent;
+    this.qComponent = qComponent;
+    this.fComponent = fComponent;
   }
 
+  /**
+   * Serializes the URN, including its components.
+   * @returns The URN string.
+   */
   toString(): string {
-    return this.urn;
+    let urn = `${Urn.PREFIX}${this.nid}${Urn.SEPARATOR}${this.nss}`;
+    if (this.rComponent !== undefined) {
+      urn += `?+${this.rComponent}`;
+    }
+    if (this.qComponent !== undefined) {
+      urn += `?=${this.qComponent}`;
+    }
+    if (this.fComponent !== undefined) {
+      urn += `#${this.fComponent}`;
+    }
+
+    return urn;
+  }
+
+  /**
+   * Checks whether two URNs are lexically equivalent as per RFC 8141, § 3.1: the `urn:` prefix and NID are
+   * compared case-insensitively, percent-encoded octets regardless of the case of their hex digits, and
+   * the r-, q- and f-components are ignored.
+   * @param other - The URN to compare with, either as a {@link Urn} or a URN string.
+   * @returns `true` if both URNs are equivalent.
+   * @throws {InvalidUrn} If `other` is a string that is not a valid URN.
+   */
+  equals(other: Urn | string): boolean {
+    const otherUrn = typeof other === 'string' ? Urn.parse(other) : other;
+
+    return Urn.#toComparable(this) === Urn.#toComparable(otherUrn);
   }
 
+  /**
+   * Parses a URN string.
+   * @param urn - The URN to parse, e.g. `urn:example:a123,z456?+abc?=xyz#789`.
+   * @returns A new Urn instance.
+   * @throws {InvalidUrn} With a message describing the first violation of RFC 8141.
+   */
   static parse(urn: string): Urn {
-    const match = urn.match(Urn.URN_PATTERN);
-    if (!match) {
-      throw new InvalidUrn();
+    if (typeof urn !== 'string' || urn.slice(0, Urn.PREFIX.length).toLowerCase() !== Urn.PREFIX) {
+      throw new InvalidUrn(`Invalid URN: Expected "${Urn.PREFIX}" prefix`);
     }
-    
-    const [, nid, nss] = match;
 
-    return new Urn(nid, nss);
+    let remainder = urn.slice(Urn.PREFIX.length);
+
+    const nidEnd = remainder.indexOf(Urn.SEPARATOR);
+    if (nidEnd === -1) {
+      throw new InvalidUrn(`Invalid URN: Expected "${Urn.SEPARATOR}" after the namespace identifier (NID)`);
+    }
+    const nid = remainder.slice(0, nidEnd);
+    remainder = remainder.slice(nidEnd + 1);
+
+    // Split off the components from the end, as each may contain the delimiters of the preceding ones.
+    const components: UrnComponents = {};
+    [remainder, components.fComponent] = Urn.#splitAt(remainder, '#');
+    [remainder, components.qComponent] = Urn.#splitAt(remainder, '?=');
+    [remainder, components.rComponent] = Urn.#splitAt(remainder, '?+');
+
+    return new Urn(nid, remainder, components);
+  }
+
+  /**
+   * Splits a string at the first occurrence of a delimiter.
+   * @returns The string before the delimiter and, if the delimiter was found, the string after it.
+   */
+  static #splitAt(value: string, delimiter: string): [string, string | undefined] {
+    const index = value.indexOf(delimiter);
+
+    return index === -1 ? [value, undefined] : [value.slice(0, index), value.slice(index + delimiter.length)];
+  }
+
+  /**
+   * Ensures that a part of the URN consists of `pchar`s and the given additional characters. Unless
+   * `allowEmpty` is set, the part must not be empty and must start with a `pchar`.
+   */
+  static #validateComponent(value: string, name: string, additionalChars: string, allowEmpty = false): void {
+    if (value.length === 0 && !allowEmpty) {
+      throw new InvalidUrn(`Invalid URN: Expected non-empty ${name}`);
+    }
+
+    for (let i = 0; i < value.length; i++) {
+      const char = value[i];
+
+      if (char === '%') {
+        if (!Urn.PERCENT_ENCODED_PATTERN.test(value.slice(i, i + 3))) {
+          throw new InvalidUrn(`Invalid URN: Expected "%" to be followed by two hex digits in ${name} "${value}"`);
+        }
+        i += 2;
+        continue;
+      }
+
+      const isAllowed = Urn.PCHAR_PATTERN.test(char) || (additionalChars.includes(char) && (i > 0 || allowEmpty));
+      if (!isAllowed) {
+        throw new InvalidUrn(`Invalid URN: Unexpected character "${char}" at position ${i} of ${name} "${value}", characters outside of the allowed set must be percent-encoded`);
+      }
+    }
+  }
+
+  /**
+   * Returns the normalized form of a URN used to check lexical equivalence.
+   */
+  static #toComparable(urn: Urn): string {
+    const nss = urn.nss.replace(/%[0-9a-f]{2}/gi, octet => octet.toUpperCase());
+
+    return `${Urn.PREFIX}${urn.nid.toLowerCase()}${Urn.SEPARATOR}${nss}`;
   }
 }
 
+/**
+ * Error thrown when a string or its parts are not a valid URN.
+ */
 export class InvalidUrn extends Error {
+  /**
+   * Creates a new InvalidUrn error.
+   * @param message - Optional custom error message. Defaults to 'Invalid URN'.
+   */
   constructor(message?: string) {
     super(message ?? 'Invalid URN');
     this.name = 'InvalidUrn';
@@ -0,0 +1,78 @@
+import type { VerificationContext } from './context';
+
+import { Convert } from '@web5/common';
+
+import { Crypto } from './crypto';
+
+// Helpers shared by the Verifiable Credentials in JWT format issued and verified by this package, i.e.
+// Domain Linkage Credentials and DAP ownership credentials. Internal, not exported from the package.
+
+/** The JSON-LD context of W3C Verifiable Credentials. */
+export const CREDENTIALS_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+
+/**
+ * The claims shared by every credential in VC-JWT format.
+ */
+export interface VcJwtClaims {
+  /** The issuer's DID. */
+  iss: string;
+
+  /** The subject's DID. */
+  sub: string;
+
+  /** The time at which the credential becomes valid, in seconds since the epoch. */
+  nbf: number;
+
+  /** The time at which the credential expires, in seconds since the epoch, if it does. */
+  exp?: number;
+
+  vc: {
+    '@context': string[];
+    type: string[];
+    issuer: string;
+    issuanceDate: string;
+    expirationDate?: string;
+    credentialSubject: {
+      /** The subject's DID. */
+      id: string;
+    };
+  };
+}
+
+/**
+ * Formats a date as an RFC 3339 date-time without milliseconds, as used by Verifiable Credentials.
+ */
+export function toDateTime(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Verifies the signature of a VC-JWT and decodes its claims, ensuring that they include a `vc` claim with
+ * a credential subject. Checks specific to the type of credential are left to the caller.
+ * @param credential - The credential as a JWT.
+ * @param context - The dependencies used when verifying the signature.
+ * @param createError - Creates the error thrown for the given reason, e.g. `Malformed claims`.
+ * @returns A promise that resolves to the signer's DID and the decoded claims.
+ */
+export async function verifyVcJwt<T extends VcJwtClaims>(credential: string, context: VerificationContext, createError: (reason: string) => Error): Promise<{ signer: string, claims: T }> {
+  let signer: string;
+  try {
+    signer = await Crypto.verify({ jws: credential, ...context });
+  } catch (error: any) {
+    throw createError(error?.message ?? 'Unknown error');
+  }
+
+  let claims: T;
+  try {
+    claims = Convert.base64Url(credential.split('.')[1]).toObject() as T;
+  } catch {
+    throw createError('Malformed claims');
+  }
+
+  const vc = typeof claims === 'object' && claims !== null ? claims.vc : undefined;
+  if (typeof vc !== 'object' || vc === null || typeof vc.credentialSubject !== 'object' || vc.credentialSubject === null) {
+    throw createError('Expected "vc" claim with a credential subject');
+  }
+
+  return { signer, claims };
+}
\ No newline at end of file
@@ -0,0 +1,133 @@
+import type { DidResolverInterface } from '../src/did-resolver';
+
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+
+import { DapCli } from '../src/cli';
+import { DidResolver } from '../src/did-resolver';
+import { RegistrationId } from '../src/registration-id';
+import { DapRegistryServer } from '../src/registry-server';
+
+describe('DapCli', () => {
+  let dir: string;
+  let stdout: string;
+  let stderr: string;
+  let registry: DapRegistryServer;
+  let didResolver: DidResolverInterface;
+  let cli: DapCli;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'dap-cli-'));
+
+    // Resolves did:web:domain.com locally, advertising the in-memory registry.
+    didResolver = {
+      resolve: async (didUri) => didUri !== 'did:web:domain.com' ? DidResolver.resolve(didUri) : {
+        didDocument: { id: didUri, service: [{ id: '#dap', type: 'DAPRegistry', serviceEndpoint: 'https://registry.domain.com' }] },
+        didDocumentMetadata: {},
+        didResolutionMetadata: {},
+      },
+      dereference: (didUrl) => DidResolver.dereference(didUrl),
+    };
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    stdout = '';
+    stderr = '';
+    registry = new DapRegistryServer({ domain: 'domain.com' });
+    cli = new DapCli({
+      didResolver,
+      fetch: async (input, init) => registry.handle(new Request(input, init)),
+      stdout: text => { stdout += text; },
+      stderr: text => { stderr += text; },
+      env: { DAP_DID_PASSPHRASE: 'passphrase' },
+    });
+  });
+
+  /** Creates a DID and a signed registration for it, returning the registration file. */
+  const createRegistrationFile = async (handle: string) => {
+    await cli.run(['did', 'create', '--out', join(dir, `${handle}-did.json`)]);
+    await cli.run(['registration', 'create', '--handle', handle, '--domain', 'domain.com', '--did', join(dir, `${handle}-did.json`), '--out', join(dir, `${handle}.json`)]);
+    stdout = '';
+    return join(dir, `${handle}.json`);
+  };
+
+  test('did create prints a portable DID', async () => {
+    expect(await cli.run(['did', 'create'])).toBe(0);
+
+    const portableDid = JSON.parse(stdout);
+    expect(portableDid.uri).toStartWith('did:jwk:');
+    expect(portableDid.privateKeys).toHaveLength(1);
+  });
+
+  test('registration create writes a signed registration', async () => {
+    const file = await createRegistrationFile('alice');
+    const registration = JSON.parse(await readFile(file, 'utf8'));
+
+    expect(registration.handle).toBe('alice');
+    expect(registration.signature).toBeString();
+  });
+
+  test('creates and signs with a passphrase-encrypted DID', async () => {
+    const didFile = join(dir, 'encrypted-did.json');
+    expect(await cli.run(['did', 'create', '--out', didFile, '--passphrase-env', 'DAP_DID_PASSPHRASE'])).toBe(0);
+    expect(JSON.parse(await readFile(didFile, 'utf8')).type).toBe('EncryptedPortableDid');
+
+    expect(await cli.run(['registration', 'create', '--handle', 'erin', '--domain', 'domain.com', '--did', didFile])).toBe(1);
+    expect(stderr).toContain('A passphrase is required');
+
+    stdout = '';
+    expect(await cli.run(['registration', 'create', '--handle', 'erin', '--domain', 'domain.com', '--did', didFile, '--passphrase-env', 'DAP_DID_PASSPHRASE'])).toBe(0);
+    expect(JSON.parse(stdout).handle).toBe('erin');
+  });
+
+  test('registration verify reports valid and invalid registrations', async () => {
+    const file = await createRegistrationFile('bob');
+
+    expect(await cli.run(['registration', 'verify', file, '--json'])).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({ valid: true, handle: 'bob', domain: 'domain.com' });
+
+    const tampered = join(dir, 'tampered.json');
+    await writeFile(tampered, JSON.stringify({ ...JSON.parse(await readFile(file, 'utf8')), handle: 'mallory' }));
+    stdout = '';
+
+    expect(await cli.run(['registration', 'verify', tampered, '--json'])).toBe(1);
+    expect(JSON.parse(stdout).valid).toBeFalse();
+  });
+
+  test('register and resolve round-trip through the registry', async () => {
+    const file = await createRegistrationFile('carol');
+    const { did } = JSON.parse(await readFile(file, 'utf8'));
+
+    expect(await cli.run(['register', file])).toBe(0);
+    expect(stdout).toContain('registered: true');
+
+    stdout = '';
+    expect(await cli.run(['resolve', '@carol/domain.com', '--json'])).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({ dap: '@carol/domain.com', did, registryUrl: 'https://registry.domain.com', bidirectional: false, moneyAddresses: [] });
+  });
+
+  test('id decode prints the creation time of a registration ID', async () => {
+    const id = RegistrationId.create();
+
+    expect(await cli.run(['id', 'decode', id.toString(), '--json'])).toBe(0);
+    expect(JSON.parse(stdout)).toEqual({ id: id.toString(), timestamp: id.extractTimestamp(), date: id.extractDate().toISOString() });
+  });
+
+  test('reports failures and usage errors with exit codes', async () => {
+    expect(await cli.run(['resolve', '@nobody/domain.com', '--json'])).toBe(1);
+    expect(JSON.parse(stderr).error).toContain('status 404');
+
+    expect(await cli.run(['registration', 'create', '--handle', 'dave'])).toBe(2);
+    expect(stderr).toContain('Missing option --did or --did-env');
+
+    expect(await cli.run(['--unknown'])).toBe(2);
+    expect(await cli.run(['frobnicate'])).toBe(2);
+    expect(await cli.run(['--help'])).toBe(0);
+  });
+});
\ No newline at end of file
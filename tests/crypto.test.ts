@@ -1,8 +1,9 @@
 import { Convert } from '@web5/common';
-import { BearerDid, DidJwk } from '@web5/dids';
+import { BearerDid, DidJwk, UniversalResolver } from '@web5/dids';
 import { beforeAll, describe, expect, test,  } from 'bun:test';
 
 import { Crypto } from '../src/crypto';
+import { DidResolver } from '../src/did-resolver';
 
 describe('Crypto', () => {
   describe('digest', () => {
@@ -150,4 +151,171 @@ describe('Crypto', () => {
       expect(Crypto.verify({ jws: 'eyJhbGciOiJFUzI1NksiLCJraWQiOiJkaWQ6ZXhhbXBsZToxMjMjMCJ9..' })).rejects.toThrow('Expected key id ("kid") in JWS header to dereference to a DID Document Verification Method');
     })
   });
+
+  describe('signGeneral', () => {
+    let alice: BearerDid;
+    let bob: BearerDid;
+
+    beforeAll(async () => {
+      alice = await DidJwk.create();
+      bob = await DidJwk.create();
+    });
+
+    test('returns a General JWS with a signature per DID', async () => {
+      const payloadBytes = Convert.object({ hello: 'world' }).toUint8Array();
+
+      const jws = await Crypto.signGeneral({ dids: [alice, bob], payload: payloadBytes, detached: false });
+
+      expect(jws.payload).toBe(Convert.uint8Array(payloadBytes).toBase64Url());
+      expect(jws.signatures).toHaveLength(2);
+    });
+
+    test('omits the payload if detached', async () => {
+      const payloadBytes = Convert.object({ hello: 'world' }).toUint8Array();
+
+      const jws = await Crypto.signGeneral({ dids: [alice], payload: payloadBytes, detached: true });
+
+      expect(jws.payload).toBeUndefined();
+    });
+  });
+
+  describe('verifyGeneral', () => {
+    let alice: BearerDid;
+    let bob: BearerDid;
+
+    beforeAll(async () => {
+      alice = await DidJwk.create();
+      bob = await DidJwk.create();
+    });
+
+    test('returns the DIDs of every signer', async () => {
+      const payloadBytes = Convert.object({ hello: 'world' }).toUint8Array();
+      const jws = await Crypto.signGeneral({ dids: [alice, bob], payload: payloadBytes, detached: false });
+
+      expect(await Crypto.verifyGeneral({ jws })).toEqual([alice.uri, bob.uri]);
+    });
+
+    test('verifies General JWS with detached payload and counter-signatures', async () => {
+      const payloadBytes = Convert.object({ hello: 'world' }).toUint8Array();
+      const jws = await Crypto.signGeneral({ dids: [alice], payload: payloadBytes, detached: true });
+      await Crypto.addSignature({ jws, did: bob, payload: payloadBytes });
+
+      expect(await Crypto.verifyGeneral({ jws, detachedPayload: payloadBytes })).toEqual([alice.uri, bob.uri]);
+    });
+
+    test('throws InvalidJws if any signature is invalid', async () => {
+      const payloadBytes = Convert.object({ hello: 'world' }).toUint8Array();
+      const jws = await Crypto.signGeneral({ dids: [alice, bob], payload: payloadBytes, detached: true });
+      const otherPayloadBytes = Convert.object({ hello: 'moon' }).toUint8Array();
+
+      await expect(Crypto.verifyGeneral({ jws, detachedPayload: otherPayloadBytes })).rejects.toThrow('Integrity mismatch');
+    });
+
+    test('throws InvalidJws for malformed General JWS', async () => {
+      await expect(Crypto.verifyGeneral({ jws: { signatures: [] } })).rejects.toThrow('Expected General JWS with at least one signature');
+      await expect(Crypto.verifyGeneral({ jws: { signatures: [{ protected: 'a', signature: 'b' }] } })).rejects.toThrow('Expected payload in JWS or detached payload');
+    });
+  });
+
+  describe('verify policy', () => {
+    let alice: BearerDid;
+    const payloadBytes = Convert.object({ hello: 'world' }).toUint8Array();
+
+    /** Produces a Compact JWS with a custom header, signed by the DID's key. */
+    const signWithHeader = async (did: BearerDid, header: { [key: string]: unknown }) => {
+      const signer = await did.getSigner();
+      const toSign = Convert.object({ alg: signer.algorithm, kid: signer.keyId, ...header }).toBase64Url() + '.' + Convert.uint8Array(payloadBytes).toBase64Url();
+      const signature = await signer.sign({ data: Convert.string(toSign).toUint8Array() });
+      return toSign + '.' + Convert.uint8Array(signature).toBase64Url();
+    };
+
+    beforeAll(async () => {
+      alice = await DidJwk.create();
+    });
+
+    test('sign includes the typ header', async () => {
+      const jws = await Crypto.sign({ did: alice, payload: payloadBytes, detached: false, typ: 'application/dap+jws' });
+
+      expect(await Crypto.verify({ jws, typ: 'application/dap+jws' })).toBe(alice.uri);
+      await expect(Crypto.verify({ jws, typ: 'JWT' })).rejects.toThrow('Expected type ("typ") "JWT" in JWS header');
+    });
+
+    test('rejects algorithms that are not allowed', async () => {
+      const jws = await Crypto.sign({ did: alice, payload: payloadBytes, detached: false });
+
+      await expect(Crypto.verify({ jws, allowedAlgorithms: ['ES256K'] })).rejects.toThrow('Algorithm "EdDSA" is not allowed');
+      await expect(Crypto.verify({ jws: await signWithHeader(alice, { alg: 'none' }) })).rejects.toThrow('Algorithm "none" is not allowed');
+    });
+
+    test('rejects algorithms that do not match the key type', async () => {
+      const jws = await signWithHeader(alice, { alg: 'ES256K' });
+
+      await expect(Crypto.verify({ jws })).rejects.toThrow('Algorithm "ES256K" does not match the verification method\'s key type');
+    });
+
+    test('rejects unknown critical header parameters', async () => {
+      await expect(Crypto.verify({ jws: await signWithHeader(alice, { crit: ['exp'], exp: 1 }) })).rejects.toThrow('Unsupported or invalid critical ("crit") parameters');
+      await expect(Crypto.verify({ jws: await signWithHeader(alice, { crit: [] }) })).rejects.toThrow('Unsupported or invalid critical ("crit") parameters');
+      expect(await Crypto.verify({ jws: await signWithHeader(alice, { crit: ['b64'], b64: true }) })).toBe(alice.uri);
+    });
+
+    test('rejects unencoded payloads', async () => {
+      await expect(Crypto.verify({ jws: await signWithHeader(alice, { b64: false }) })).rejects.toThrow('Unencoded payloads ("b64": false) are not supported');
+    });
+
+    test('rejects keys that are not listed under the required verification relationships', async () => {
+      const jws = await Crypto.sign({ did: alice, payload: payloadBytes, detached: false });
+
+      // Resolve alice's DID Document with the key listed under keyAgreement only.
+      const didResolver = {
+        resolve: async (didUri: string) => {
+          const result = await DidResolver.resolve(didUri);
+          const { verificationMethod, keyAgreement } = result.didDocument!;
+          return { ...result, didDocument: { id: didUri, verificationMethod, keyAgreement } };
+        },
+        dereference: (didUrl: string) => DidResolver.dereference(didUrl),
+      };
+
+      await expect(Crypto.verify({ jws, didResolver })).rejects.toThrow('Expected key id ("kid") to be listed under assertionMethod or authentication');
+      expect(await Crypto.verify({ jws, didResolver, verificationRelationships: ['keyAgreement'] })).toBe(alice.uri);
+      expect(await Crypto.verify({ jws, didResolver, verificationRelationships: [] })).toBe(alice.uri);
+    });
+  });
+
+  describe('verification context', () => {
+    let alice: BearerDid;
+    const payloadBytes = Convert.object({ hello: 'world' }).toUint8Array();
+
+    beforeAll(async () => {
+      alice = await DidJwk.create();
+    });
+
+    test('verifies signatures with the provided verifier', async () => {
+      const jws = await Crypto.sign({ did: alice, payload: payloadBytes, detached: false });
+      const keys: unknown[] = [];
+      const verifier = { verify: async ({ key }: { key: unknown }) => { keys.push(key); return false; } };
+
+      await expect(Crypto.verify({ jws, verifier })).rejects.toThrow('Integrity mismatch');
+      expect(keys).toEqual([alice.document.verificationMethod![0].publicKeyJwk]);
+    });
+
+    test('resolves DIDs with the provided resolver', async () => {
+      const jws = await Crypto.sign({ did: alice, payload: payloadBytes, detached: false });
+      const didResolver = new UniversalResolver({ didResolvers: [] });
+
+      await expect(Crypto.verify({ jws, didResolver })).rejects.toThrow('to dereference to a DID Document Verification Method');
+    });
+
+    test('resolves the signer DID once per signature', async () => {
+      const jws = await Crypto.sign({ did: alice, payload: payloadBytes, detached: false });
+      const resolved: string[] = [];
+      const didResolver = {
+        resolve: async (didUri: string) => { resolved.push(didUri); return DidResolver.resolve(didUri); },
+        dereference: async (didUrl: string) => { resolved.push(didUrl); return DidResolver.dereference(didUrl); },
+      };
+
+      expect(await Crypto.verify({ jws, didResolver })).toBe(alice.uri);
+      expect(resolved).toEqual([alice.uri]);
+    });
+  });
 });
\ No newline at end of file
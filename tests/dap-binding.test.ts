@@ -0,0 +1,71 @@
+import type { DidDocument } from '@web5/dids';
+import type { DidResolverInterface } from '../src/did-resolver';
+
+import { describe, expect, test } from 'bun:test';
+
+import { Dap } from '../src/dap';
+import { DapBinding } from '../src/dap-binding';
+import { StaticDidResolver } from '../src/did-resolver';
+
+describe('DapBinding', () => {
+  const did = 'did:example:alice';
+
+  const resolverFor = (didDocument: DidDocument): DidResolverInterface => new StaticDidResolver({
+    [did]: { didDocument, didDocumentMetadata: {}, didResolutionMetadata: {} },
+  });
+
+  describe('fromDidDocument', () => {
+    test('extracts DAPs from alsoKnownAs and DAP services, ignoring other entries', () => {
+      const daps = DapBinding.fromDidDocument({
+        id: did,
+        alsoKnownAs: ['https://alice.example.com', '@Alice/domain.com'],
+        service: [
+          { id: '#dap', type: 'DAP', serviceEndpoint: ['@alice/other.com', 'not a dap'] },
+          { id: '#maddr', type: 'MaddrService', serviceEndpoint: 'urn:btc:addr:abc' },
+        ],
+      });
+
+      expect(daps).toEqual([
+        { dap: new Dap('alice', 'domain.com'), source: 'alsoKnownAs' },
+        { dap: new Dap('alice', 'other.com'), source: 'service' },
+      ]);
+    });
+  });
+
+  describe('verify', () => {
+    test('confirms a DAP advertised by the DID', async () => {
+      expect(await DapBinding.verify('@alice/domain.com', did, resolverFor({ id: did, alsoKnownAs: ['@ALICE/Domain.com'] }))).toEqual({ bidirectional: true, source: 'alsoKnownAs' });
+      expect(await DapBinding.verify(new Dap('alice', 'domain.com'), did, resolverFor({ id: did, service: [{ id: '#dap', type: 'DAP', serviceEndpoint: '@alice/domain.com' }] }))).toEqual({ bidirectional: true, source: 'service' });
+    });
+
+    test('reports DAPs the DID does not advertise', async () => {
+      expect(await DapBinding.verify('@bob/domain.com', did, resolverFor({ id: did, alsoKnownAs: ['@alice/domain.com'] }))).toEqual({ bidirectional: false });
+    });
+
+    test('reports DIDs that cannot be resolved', async () => {
+      const result = await DapBinding.verify('@alice/domain.com', 'did:example:unknown', resolverFor({ id: did }));
+
+      expect(result.bidirectional).toBeFalse();
+      expect(result.error).toContain('Failed to resolve did:example:unknown');
+    });
+
+    test('reports invalid DAPs without resolving the DID', async () => {
+      const result = await DapBinding.verify('alice@domain.com', did, { resolve: () => { throw new Error('Unexpected resolution'); }, dereference: () => { throw new Error('Unexpected dereferencing'); } });
+
+      expect(result.bidirectional).toBeFalse();
+      expect(result.error).toStartWith('Invalid DAP');
+    });
+  });
+
+  describe('addToDidDocument', () => {
+    test('adds the DAP to alsoKnownAs without modifying the original DID document', () => {
+      const didDocument: DidDocument = { id: did, alsoKnownAs: ['https://alice.example.com'] };
+
+      const updated = DapBinding.addToDidDocument(didDocument, '@Alice/domain.com');
+
+      expect(updated.alsoKnownAs).toEqual(['https://alice.example.com', '@alice/domain.com']);
+      expect(didDocument.alsoKnownAs).toEqual(['https://alice.example.com']);
+      expect(DapBinding.addToDidDocument(updated, '@alice/domain.com')).toEqual(updated);
+    });
+  });
+});
\ No newline at end of file
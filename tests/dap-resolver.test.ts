@@ -0,0 +1,192 @@
+import type { DidResolutionResult } from '@web5/dids';
+
+import { BearerDid, DidJwk } from '@web5/dids';
+import { beforeAll, describe, expect, test } from 'bun:test';
+
+import type { DidResolverInterface } from '../src/did-resolver';
+import type { Fetch } from '../src/dap-resolver';
+
+import { Dap } from '../src/dap';
+import { DapResolutionError, DapResolver } from '../src/dap-resolver';
+import { DidResolver } from '../src/did-resolver';
+import { DapRegistration } from '../src/registration';
+
+const registryUrl = 'https://registry.domain.com';
+
+/** Resolves `did:web:domain.com` locally and delegates everything else to the default resolver. */
+function createDidResolver(didDocument: DidResolutionResult['didDocument']): DidResolverInterface {
+  return {
+    resolve: async (didUri) => {
+      if (didUri === 'did:web:domain.com') {
+        return { didDocument, didDocumentMetadata: {}, didResolutionMetadata: {} };
+      }
+      return DidResolver.resolve(didUri);
+    },
+    dereference: (didUrl) => DidResolver.dereference(didUrl),
+  };
+}
+
+/** A stand-in registry serving the given registrations keyed by handle. */
+function createFetch(registrations: Record<string, object>): Fetch {
+  return async (input) => {
+    const url = new URL(input.toString());
+    const handle = decodeURIComponent(url.pathname.replace('/daps/', ''));
+    const proof = registrations[handle];
+
+    if (url.origin !== registryUrl || !proof) {
+      return Response.json({ error: { message: 'Not found' } }, { status: 404 });
+    }
+
+    return Response.json({ proof });
+  };
+}
+
+/** Never responds, until the request is aborted. */
+const hangingFetch: Fetch = (_input, init) => new Promise((_resolve, reject) => {
+  init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+});
+
+/** Never resolves any DID. */
+const hangingDidResolver: DidResolverInterface = {
+  resolve: () => new Promise(() => {}),
+  dereference: () => new Promise(() => {}),
+};
+
+describe('DapResolver', () => {
+  let alice: BearerDid;
+  let registration: DapRegistration;
+  let didResolver: DidResolverInterface;
+
+  beforeAll(async () => {
+    alice = await DidJwk.create();
+    registration = DapRegistration.create({ handle: 'alice', did: alice.uri, domain: 'domain.com' });
+    await registration.sign(alice);
+
+    didResolver = createDidResolver({
+      id: 'did:web:domain.com',
+      service: [{ id: '#dap', type: 'DAPRegistry', serviceEndpoint: `${registryUrl}/` }]
+    });
+  });
+
+  describe('resolveRegistryUrl', () => {
+    test('returns the DAPRegistry service endpoint without a trailing slash', async () => {
+      const resolver = new DapResolver({ didResolver, fetch: createFetch({}) });
+      expect(await resolver.resolveRegistryUrl('domain.com')).toBe(registryUrl);
+    });
+
+    test('throws DapResolutionError if the domain DID has no DAPRegistry service', async () => {
+      const resolver = new DapResolver({
+        didResolver: createDidResolver({ id: 'did:web:domain.com' }),
+        fetch: createFetch({})
+      });
+      await expect(resolver.resolveRegistryUrl('domain.com')).rejects.toThrow(DapResolutionError);
+    });
+
+    test('throws DapResolutionError if the DAPRegistry service endpoint is not an absolute URL', async () => {
+      const resolver = new DapResolver({
+        didResolver: createDidResolver({ id: 'did:web:domain.com', service: [{ id: '#dap', type: 'DAPRegistry', serviceEndpoint: '/registry' }] }),
+        fetch: createFetch({})
+      });
+
+      const resolution = resolver.resolve('@alice/domain.com');
+      await expect(resolution).rejects.toThrow(DapResolutionError);
+      await expect(resolution).rejects.toThrow('Expected DAPRegistry service endpoint of did:web:domain.com to be an absolute URL but got "/registry"');
+    });
+
+    test('throws DapResolutionError if the DAPRegistry service endpoint does not use HTTPS', async () => {
+      for (const serviceEndpoint of ['http://registry.domain.com', 'ftp://registry.domain.com']) {
+        const resolver = new DapResolver({
+          didResolver: createDidResolver({ id: 'did:web:domain.com', service: [{ id: '#dap', type: 'DAPRegistry', serviceEndpoint }] }),
+          fetch: createFetch({})
+        });
+
+        const resolution = resolver.resolve('@alice/domain.com');
+        await expect(resolution).rejects.toThrow(DapResolutionError);
+        await expect(resolution).rejects.toThrow(`Expected DAPRegistry service endpoint of did:web:domain.com to use HTTPS but got "${serviceEndpoint}"`);
+      }
+    });
+
+    test('throws DapResolutionError if the domain DID does not resolve in time', async () => {
+      const resolver = new DapResolver({ didResolver: hangingDidResolver, fetch: createFetch({}), timeout: 10 });
+      await expect(resolver.resolveRegistryUrl('domain.com')).rejects.toThrow('Failed to resolve did:web:domain.com: Did not respond within 10ms');
+    });
+
+    test('stops resolving the domain DID when the signal is aborted', async () => {
+      const resolver = new DapResolver({ didResolver: hangingDidResolver, fetch: createFetch({}) });
+      const controller = new AbortController();
+
+      const resolution = resolver.resolve('@alice/domain.com', { signal: controller.signal });
+      controller.abort(new Error('Payment cancelled'));
+
+      await expect(resolution).rejects.toThrow('Payment cancelled');
+    });
+  });
+
+  describe('resolve', () => {
+    test('resolves a DAP to the registered DID', async () => {
+      const resolver = new DapResolver({ didResolver, fetch: createFetch({ alice: registration.toJSON() }) });
+      const result = await resolver.resolve('@alice/domain.com');
+
+      expect(result.did).toBe(alice.uri);
+      expect(result.dap).toEqual(Dap.parse('@alice/domain.com'));
+      expect(result.registryUrl).toBe(registryUrl);
+      expect(result.proof.id.toString()).toBe(registration.id.toString());
+      expect(result.binding).toEqual({ bidirectional: false });
+    });
+
+    test('reports whether the DID advertises the DAP back', async () => {
+      const bindingDidResolver: DidResolverInterface = {
+        resolve: async (didUri) => {
+          const result = await didResolver.resolve(didUri);
+          return didUri === alice.uri ? { ...result, didDocument: { ...result.didDocument!, alsoKnownAs: ['@Alice/domain.com'] } } : result;
+        },
+        dereference: (didUrl) => didResolver.dereference(didUrl),
+      };
+      const resolver = new DapResolver({ didResolver: bindingDidResolver, fetch: createFetch({ alice: registration.toJSON() }) });
+
+      expect((await resolver.resolve('@alice/domain.com')).binding).toEqual({ bidirectional: true, source: 'alsoKnownAs' });
+    });
+
+    test('throws DapResolutionError if the handle is not registered', async () => {
+      const resolver = new DapResolver({ didResolver, fetch: createFetch({}) });
+      await expect(resolver.resolve('@alice/domain.com')).rejects.toThrow('responded with status 404');
+    });
+
+    test('throws DapResolutionError if the registry returns a registration for another handle', async () => {
+      const resolver = new DapResolver({ didResolver, fetch: createFetch({ bob: registration.toJSON() }) });
+      await expect(resolver.resolve('@bob/domain.com')).rejects.toThrow('instead of @bob/domain.com');
+    });
+
+    test('throws DapResolutionError if the registration signature is invalid', async () => {
+      const tampered = { ...registration.toJSON(), did: (await DidJwk.create()).uri };
+      const resolver = new DapResolver({ didResolver, fetch: createFetch({ alice: tampered }) });
+      await expect(resolver.resolve('@alice/domain.com')).rejects.toThrow('Failed to verify registration');
+    });
+
+    test('throws DapResolutionError if the registry does not respond in time', async () => {
+      const resolver = new DapResolver({ didResolver, fetch: hangingFetch, timeout: 10, retry: { retries: 0 } });
+      await expect(resolver.resolve('@alice/domain.com')).rejects.toThrow('did not respond within 10ms');
+    });
+
+    test('retries requests to the registry', async () => {
+      let calls = 0;
+      const registryFetch = createFetch({ alice: registration.toJSON() });
+      const fetch: Fetch = async (input, init) => ++calls === 1 ? new Response('Bad Gateway', { status: 502 }) : registryFetch(input, init);
+
+      const resolver = new DapResolver({ didResolver, fetch, retry: { minDelay: 1 } });
+
+      expect((await resolver.resolve('@alice/domain.com')).did).toBe(alice.uri);
+      expect(calls).toBe(2);
+    });
+
+    test('aborts the request to the registry when the signal is aborted', async () => {
+      const resolver = new DapResolver({ didResolver, fetch: hangingFetch });
+      const controller = new AbortController();
+
+      const resolution = resolver.resolve('@alice/domain.com', { signal: controller.signal });
+      controller.abort(new Error('Payment cancelled'));
+
+      await expect(resolution).rejects.toThrow('Payment cancelled');
+    });
+  });
+});
\ No newline at end of file
@@ -27,6 +27,10 @@ describe('Dap', () => {
       '@handle/domain.com@',
       '@handle/domain.com/',
       'handle@domain.com',
+      '@han dle/domain.com',
+      '@handle/domain .com',
+      '@handle/-domain.com',
+      '@handle/domain..com',
     ];
 
     invalidDaps.forEach(dap => {
@@ -34,4 +38,67 @@ describe('Dap', () => {
       expect(() => Dap.parse(dap)).toThrow('Invalid DAP');
     });
   });
+
+  test('accepts Unicode handles', () => {
+    expect(Dap.parse('@álvaro/domain.com').handle).toBe('álvaro');
+  });
+
+  describe('normalization', () => {
+    test('parse normalizes case, whitespace and Unicode', () => {
+      // "A" followed by a combining acute accent (U+0301).
+      const dap = Dap.parse(' @A\u0301lvaro/Example.COM ');
+      expect(dap.handle).toBe('\u00e1lvaro');
+      expect(dap.domain).toBe('example.com');
+    });
+
+    test('parse converts internationalized domains to punycode', () => {
+      expect(Dap.parse('@alice/Bücher.example').domain).toBe('xn--bcher-kva.example');
+    });
+
+    test('normalize returns the canonical DAP', () => {
+      expect(new Dap('Alice', 'Example.com').normalize().toString()).toBe('@alice/example.com');
+    });
+
+    test('equals compares normalized DAPs', () => {
+      expect(Dap.parse('@alice/example.com').equals('@Alice/Example.com')).toBeTrue();
+      expect(new Dap('Alice', 'EXAMPLE.com').equals(new Dap('alice', 'example.com'))).toBeTrue();
+      expect(Dap.parse('@alice/example.com').equals('@bob/example.com')).toBeFalse();
+    });
+  });
+
+  describe('confusables', () => {
+    test('rejects handles and domains that mix scripts', () => {
+      // Cyrillic "а" (U+0430) in place of the Latin "a".
+      expect(() => Dap.parse('@pаypal/example.com')).toThrow('confused');
+      expect(() => Dap.parse('@alice/exаmple.com')).toThrow('confused');
+    });
+
+    test('rejects confusable domains given in punycode', () => {
+      // "exаmple.com" with a Cyrillic "а", and "аррӏе.com" in Cyrillic.
+      expect(() => Dap.parse('@alice/xn--exmple-4nf.com')).toThrow('confused');
+      expect(() => Dap.parse('@alice/xn--80ak6aa92e.com')).toThrow('confused');
+      expect(Dap.parse('@alice/xn--bcher-kva.example').domain).toBe('xn--bcher-kva.example');
+    });
+
+    test('rejects handles made up of look-alike letters only', () => {
+      // Cyrillic "рау".
+      expect(() => Dap.parse('@рау/example.com')).toThrow('confused');
+
+      // Cyrillic "сосо", "сору", "асе" and "ехес".
+      for (const handle of ['сосо', 'сору', 'асе', 'ехес']) {
+        expect(() => Dap.parse(`@${handle}/example.com`)).toThrow('confused');
+      }
+    });
+
+    test('rejects domains made up of look-alike letters only', () => {
+      // Cyrillic "сосо.com", in Unicode and punycode.
+      expect(() => Dap.parse('@alice/сосо.com')).toThrow('confused');
+      expect(() => Dap.parse('@alice/xn--n1aahb.com')).toThrow('confused');
+    });
+
+    test('accepts single-script non-Latin handles', () => {
+      expect(Dap.parse('@иван/example.com').handle).toBe('иван');
+      expect(Dap.parse('@δημήτρης/example.com').handle).toBe('δημήτρης');
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,72 @@
+import type { BearerDid } from '@web5/dids';
+
+import { Convert } from '@web5/common';
+import { DidJwk } from '@web5/dids';
+import { beforeAll, describe, expect, test } from 'bun:test';
+
+import { Crypto } from '../src/crypto';
+import { DidConfiguration, InvalidDomainLinkage } from '../src/did-configuration';
+
+describe('DidConfiguration', () => {
+  const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  let registryDid: BearerDid;
+  let otherDid: BearerDid;
+
+  beforeAll(async () => {
+    registryDid = await DidJwk.create();
+    otherDid = await DidJwk.create();
+  });
+
+  test('creates a DID Configuration with a Domain Linkage Credential per DID', async () => {
+    const document = await DidConfiguration.create([registryDid, otherDid], { origin: 'domain.com', expiresAt });
+
+    expect(document['@context']).toBe(DidConfiguration.CONTEXT);
+    expect(document.linked_dids).toHaveLength(2);
+
+    const claims = Convert.base64Url(document.linked_dids[0].split('.')[1]).toObject() as any;
+    expect(claims).toMatchObject({ iss: registryDid.uri, sub: registryDid.uri, exp: Math.floor(expiresAt.getTime() / 1000) });
+    expect(claims.vc.type).toEqual(['VerifiableCredential', 'DomainLinkageCredential']);
+    expect(claims.vc.credentialSubject).toEqual({ id: registryDid.uri, origin: 'https://domain.com' });
+  });
+
+  test('verifies the DIDs linked to an origin', async () => {
+    const document = await DidConfiguration.create([registryDid, otherDid], { origin: 'https://domain.com', expiresAt });
+
+    expect(await DidConfiguration.verify(JSON.stringify(document), 'domain.com')).toEqual([registryDid.uri, otherDid.uri]);
+    expect(await DidConfiguration.verify(document, 'https://other.com')).toEqual([]);
+  });
+
+  test('ignores invalid credentials', async () => {
+    const expired = await DidConfiguration.createCredential(otherDid, { origin: 'domain.com', issuedAt: new Date('2020-01-01'), expiresAt: new Date('2021-01-01') });
+    const document = { '@context': DidConfiguration.CONTEXT, linked_dids: [expired, await DidConfiguration.createCredential(registryDid, { origin: 'domain.com', expiresAt })] };
+
+    expect(await DidConfiguration.verify(document, 'domain.com')).toEqual([registryDid.uri]);
+    await expect(DidConfiguration.verifyCredential(expired, 'domain.com')).rejects.toThrow('Expired or not yet valid');
+  });
+
+  test('rejects credentials that are not self-issued by the linked DID', async () => {
+    const credential = await DidConfiguration.createCredential(registryDid, { origin: 'domain.com', expiresAt });
+    const claims = Convert.base64Url(credential.split('.')[1]).toObject() as any;
+    claims.vc.credentialSubject.id = otherDid.uri;
+    const forged = await Crypto.sign({ did: registryDid, payload: Convert.object(claims).toUint8Array(), detached: false });
+
+    await expect(DidConfiguration.verifyCredential(forged, 'domain.com')).rejects.toThrow(`Expected issuer and subject to be the signer ${registryDid.uri}`);
+  });
+
+  test('rejects malformed documents', async () => {
+    await expect(DidConfiguration.verify('not json', 'domain.com')).rejects.toThrow(InvalidDomainLinkage);
+    await expect(DidConfiguration.verify({ linked_dids: [] } as any, 'domain.com')).rejects.toThrow('Expected "@context"');
+  });
+
+  test('fetches the DID Configuration of a domain to verify a linkage', async () => {
+    const document = await DidConfiguration.create([registryDid], { origin: 'domain.com', expiresAt });
+    const fetch = async (input: string | URL | Request) => input.toString() === 'https://domain.com/.well-known/did-configuration.json'
+      ? Response.json(document)
+      : new Response('Not found', { status: 404 });
+
+    await DidConfiguration.verifyLinkage('domain.com', registryDid.uri, { fetch });
+    await expect(DidConfiguration.verifyLinkage('domain.com', otherDid.uri, { fetch })).rejects.toThrow(`Expected ${otherDid.uri} to be linked to domain.com`);
+    await expect(DidConfiguration.verifyLinkage('other.com', registryDid.uri, { fetch })).rejects.toThrow('Responded with status 404');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,133 @@
+import type { CachedDidResolution, DidResolutionStore } from '../src/did-resolver';
+import type { DidResolutionOptions, DidResolutionResult } from '@web5/dids';
+
+import { DidJwk } from '@web5/dids';
+import { beforeEach, describe, expect, test } from 'bun:test';
+
+import { CachingDidResolver } from '../src/did-resolver';
+
+let resolutions = 0;
+
+class CountingDidJwk extends DidJwk {
+  static async resolve(didUri: string, options?: DidResolutionOptions): Promise<DidResolutionResult> {
+    resolutions++;
+    return DidJwk.resolve(didUri, options);
+  }
+}
+
+class InMemoryStore implements DidResolutionStore {
+  entries = new Map<string, CachedDidResolution>();
+  async get(didUri: string) { return this.entries.get(didUri); }
+  async set(didUri: string, entry: CachedDidResolution) { this.entries.set(didUri, entry); }
+  async delete(didUri: string) { this.entries.delete(didUri); }
+}
+
+describe('CachingDidResolver', () => {
+  let now: number;
+  let didUri: string;
+
+  beforeEach(async () => {
+    resolutions = 0;
+    now = 0;
+    didUri = (await DidJwk.create()).uri;
+  });
+
+  const createResolver = (options = {}) => new CachingDidResolver({ didResolvers: [CountingDidJwk], now: () => now, ...options });
+
+  test('serves repeated resolutions from the cache', async () => {
+    const resolver = createResolver();
+
+    const first = await resolver.resolve(didUri);
+    const second = await resolver.resolve(didUri);
+
+    expect(second).toEqual(first);
+    expect(resolutions).toBe(1);
+    expect(resolver.stats()).toEqual({ hits: 1, negativeHits: 0, misses: 1, evictions: 0, size: 1 });
+  });
+
+  test('dereferences DID URLs through the cache', async () => {
+    const resolver = createResolver();
+
+    await resolver.resolve(didUri);
+    const { contentStream } = await resolver.dereference(`${didUri}#0`);
+
+    expect(contentStream).toMatchObject({ id: `${didUri}#0` });
+    expect(resolutions).toBe(1);
+  });
+
+  test('expires entries after the TTL', async () => {
+    const resolver = createResolver({ ttl: 1000 });
+
+    await resolver.resolve(didUri);
+    now = 1000;
+    await resolver.resolve(didUri);
+
+    expect(resolutions).toBe(2);
+  });
+
+  test('expires entries at the nextUpdate reported in the DID document metadata', async () => {
+    class ShortLivedDidJwk extends CountingDidJwk {
+      static async resolve(didUri: string): Promise<DidResolutionResult> {
+        const result = await CountingDidJwk.resolve(didUri);
+        return { ...result, didDocumentMetadata: { nextUpdate: new Date(500).toISOString() } };
+      }
+    }
+    const resolver = createResolver({ didResolvers: [ShortLivedDidJwk], ttl: 1000 });
+
+    await resolver.resolve(didUri);
+    now = 500;
+    await resolver.resolve(didUri);
+
+    expect(resolutions).toBe(2);
+  });
+
+  test('caches failed resolutions for the negative TTL', async () => {
+    const resolver = createResolver({ negativeTtl: 100 });
+
+    const result = await resolver.resolve('did:jwk:invalid');
+    await resolver.resolve('did:jwk:invalid');
+
+    expect(result.didResolutionMetadata.error).toBeDefined();
+    expect(resolutions).toBe(1);
+    expect(resolver.stats().negativeHits).toBe(1);
+
+    now = 100;
+    await resolver.resolve('did:jwk:invalid');
+    expect(resolutions).toBe(2);
+  });
+
+  test('evicts the least recently used entry when full', async () => {
+    const events: string[] = [];
+    const resolver = createResolver({ maxEntries: 2, onCacheEvent: (event: string, uri: string) => events.push(`${event}:${uri}`) });
+    const [a, b, c] = [didUri, (await DidJwk.create()).uri, (await DidJwk.create()).uri];
+
+    await resolver.resolve(a);
+    await resolver.resolve(b);
+    await resolver.resolve(a);
+    await resolver.resolve(c);
+
+    expect(events).toEqual([`miss:${a}`, `miss:${b}`, `hit:${a}`, `miss:${c}`, `eviction:${b}`]);
+    expect(resolver.stats().size).toBe(2);
+  });
+
+  test('reads and writes through the persistent store', async () => {
+    const store = new InMemoryStore();
+
+    await createResolver({ store }).resolve(didUri);
+    await createResolver({ store }).resolve(didUri);
+
+    expect(store.entries.has(didUri)).toBeTrue();
+    expect(resolutions).toBe(1);
+  });
+
+  test('invalidate removes an entry', async () => {
+    const store = new InMemoryStore();
+    const resolver = createResolver({ store });
+
+    await resolver.resolve(didUri);
+    await resolver.invalidate(didUri);
+    await resolver.resolve(didUri);
+
+    expect(resolutions).toBe(2);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { describe, expect, test } from 'bun:test';
+
+import { InvalidMoneyAddress, MoneyAddress } from '../src/money-address';
+import { MoneyAddressValidationError, MoneyAddressValidatorRegistry, MoneyAddressValidators, createEvmAddressValidator } from '../src/money-address-validators';
+
+const validate = (maddr: string) => MoneyAddressValidators.validate(MoneyAddress.parse('#maddr', maddr));
+
+const expectRejected = (maddr: string, reason: string) => {
+  try {
+    validate(maddr);
+    throw new Error(`Expected ${maddr} to be rejected`);
+  } catch (error: any) {
+    expect(error).toBeInstanceOf(MoneyAddressValidationError);
+    expect(error).toBeInstanceOf(InvalidMoneyAddress);
+    expect(error.reason).toBe(reason);
+  }
+};
+
+describe('MoneyAddressValidators', () => {
+  describe('btc:addr', () => {
+    test('accepts Base58Check and SegWit addresses', () => {
+      const addresses = [
+        '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
+        '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy',
+        'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq',
+        'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0',
+      ];
+
+      for (const address of addresses) {
+        expect(validate(`urn:btc:addr:${address}`).address).toBe(address);
+      }
+    });
+
+    test('normalizes uppercase SegWit addresses to lowercase', () => {
+      const maddr = validate('urn:btc:addr:BC1QAR0SRRR7XFKVY5L643LYDNW9RE59GTZZWF5MDQ');
+      expect(maddr.address).toBe('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq');
+      expect(maddr.toString()).toBe('urn:btc:addr:bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq');
+    });
+
+    test('rejects addresses with invalid checksums', () => {
+      expectRejected('urn:btc:addr:1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb', 'checksum');
+      expectRejected('urn:btc:addr:bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdr', 'checksum');
+    });
+
+    test('rejects malformed addresses', () => {
+      expectRejected('urn:btc:addr:bc1q', 'checksum');
+      expectRejected('urn:btc:addr:0OIl', 'malformed');
+      expectRejected('urn:btc:addr:EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', 'malformed');
+    });
+  });
+
+  describe('btc:lnaddr', () => {
+    test('accepts and normalizes Lightning addresses', () => {
+      expect(validate('urn:btc:lnaddr:Alice@Domain.com').address).toBe('alice@domain.com');
+    });
+
+    test('rejects malformed Lightning addresses', () => {
+      expectRejected('urn:btc:lnaddr:alice', 'malformed');
+      expectRejected('urn:btc:lnaddr:@domain.com', 'malformed');
+      expectRejected('urn:btc:lnaddr:alice@-domain.com', 'malformed');
+    });
+  });
+
+  describe('btc:lninvoice', () => {
+    const invoice = 'lnbc1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq8rkx3yf5tcsyz3d73gafnh3cax9rn449d9p5uxz9ezhhypd0elx87sjle52x86fux2ypatgddc6k63n7erqz25le42c4u4ecky03ylcqca784w';
+
+    test('accepts BOLT 11 invoices', () => {
+      expect(validate(`urn:btc:lninvoice:${invoice.toUpperCase()}`).address).toBe(invoice);
+    });
+
+    test('rejects invoices with invalid checksums', () => {
+      expectRejected(`urn:btc:lninvoice:${invoice.slice(0, -1)}q`, 'checksum');
+    });
+  });
+
+  describe('EVM addresses', () => {
+    test('normalizes single-case addresses to their EIP-55 checksummed form', () => {
+      expect(validate('urn:eth:addr:0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed').address).toBe('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed');
+      expect(validate('urn:usdc:base:0xFB6916095CA1DF60BB79CE92CE3EA74C37C5D359').address).toBe('0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359');
+    });
+
+    test('accepts checksummed addresses', () => {
+      expect(validate('urn:usdc:eth:0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed').address).toBe('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed');
+    });
+
+    test('rejects mixed-case addresses with invalid checksums', () => {
+      expectRejected('urn:usdc:polygon:0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD', 'checksum');
+    });
+
+    test('rejects malformed addresses', () => {
+      expectRejected('urn:usdc:eth:0xabc', 'malformed');
+    });
+  });
+
+  describe('usdc:sol', () => {
+    test('accepts Solana addresses', () => {
+      expect(validate('urn:usdc:sol:EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v').address).toBe('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+    });
+
+    test('rejects malformed addresses', () => {
+      expectRejected('urn:usdc:sol:0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed', 'malformed');
+    });
+  });
+});
+
+describe('MoneyAddressValidatorRegistry', () => {
+  test('accepts money addresses without a validator as is', () => {
+    const maddr = MoneyAddress.parse('#maddr', 'urn:xmr:addr:anything');
+    expect(new MoneyAddressValidatorRegistry().validate(maddr)).toBe(maddr);
+  });
+
+  test('rejects money addresses without a validator if required', () => {
+    const maddr = MoneyAddress.parse('#maddr', 'urn:xmr:addr:anything');
+    expect(() => new MoneyAddressValidatorRegistry().validate(maddr, { requireValidator: true })).toThrow(MoneyAddressValidationError);
+  });
+
+  test('uses registered custom validators', () => {
+    const registry = new MoneyAddressValidatorRegistry().register(createEvmAddressValidator('USDT', 'eth'));
+    expect(registry.get('usdt', 'ETH')).toBeDefined();
+
+    const maddr = registry.validate(MoneyAddress.parse('#maddr', 'urn:usdt:eth:0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed'));
+    expect(maddr.toString()).toBe('urn:usdt:eth:0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed');
+  });
+
+  test('keeps the components of normalized money addresses', () => {
+    const maddr = validate('urn:eth:addr:0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed?+resolver?=amount=1#memo');
+
+    expect(maddr.address).toBe('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed');
+    expect(maddr.toString()).toBe('urn:eth:addr:0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed?+resolver?=amount=1#memo');
+  });
+
+  test('replaces validators for the same currency and protocol', () => {
+    const registry = new MoneyAddressValidatorRegistry()
+      .register(createEvmAddressValidator('usdt', 'eth'))
+      .register({ currency: 'usdt', protocol: 'eth', validate: () => ({ valid: false, reason: 'malformed', message: 'Rejected' }) });
+
+    expect(() => registry.validate(MoneyAddress.parse('#maddr', 'urn:usdt:eth:0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed'))).toThrow('Invalid money address in service #maddr: Rejected');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,91 @@
+import type { DidDocument } from '@web5/dids';
+
+import { DidDht } from '@web5/dids';
+import { describe, expect, test } from 'bun:test';
+
+import { InvalidMoneyAddress, MoneyAddress } from '../src/money-address';
+
+describe('MoneyAddress', () => {
+  describe('parse', () => {
+    test('parses currency, protocol and address', () => {
+      const maddr = MoneyAddress.parse('#maddr', 'urn:btc:lnaddr:alice@domain.com');
+      expect(maddr.id).toBe('#maddr');
+      expect(maddr.currency).toBe('btc');
+      expect(maddr.protocol).toBe('lnaddr');
+      expect(maddr.address).toBe('alice@domain.com');
+      expect(maddr.toString()).toBe('urn:btc:lnaddr:alice@domain.com');
+    });
+
+    test('keeps colons in the address', () => {
+      const maddr = MoneyAddress.parse('#maddr', 'urn:usdc:eth:0xabc:extra');
+      expect(maddr.protocol).toBe('eth');
+      expect(maddr.address).toBe('0xabc:extra');
+    });
+
+    test('throws InvalidMoneyAddress for invalid money addresses', () => {
+      const invalidMaddrs = [
+        '',
+        'btc:addr:bc1q',
+        'urn:btc:addr',
+        'urn:btc::bc1q',
+        'urn:btc:addr:',
+      ];
+
+      invalidMaddrs.forEach(maddr => {
+        expect(() => MoneyAddress.parse('#maddr', maddr)).toThrow(InvalidMoneyAddress);
+        expect(() => MoneyAddress.parse('#maddr', maddr)).toThrow('Invalid money address in service #maddr');
+      });
+    });
+  });
+
+  describe('fromDidDocument', () => {
+    test('returns money addresses from every MaddrService endpoint', () => {
+      const didDocument: DidDocument = {
+        id: 'did:example:123',
+        service: [
+          { id: '#maddr-btc', type: 'MaddrService', serviceEndpoint: ['urn:btc:addr:bc1q', 'urn:btc:lnaddr:alice@domain.com'] },
+          { id: '#pfi', type: 'PFI', serviceEndpoint: 'https://pfi.domain.com' },
+          { id: '#maddr-usdc', type: 'MaddrService', serviceEndpoint: 'urn:usdc:eth:0xabc' },
+        ]
+      };
+
+      const maddrs = MoneyAddress.fromDidDocument(didDocument);
+
+      expect(maddrs.map(maddr => maddr.toString())).toEqual(['urn:btc:addr:bc1q', 'urn:btc:lnaddr:alice@domain.com', 'urn:usdc:eth:0xabc']);
+      expect(maddrs.map(maddr => maddr.id)).toEqual(['#maddr-btc', '#maddr-btc', '#maddr-usdc']);
+    });
+
+    test('returns an empty array if there are no MaddrService services', () => {
+      expect(MoneyAddress.fromDidDocument({ id: 'did:example:123' })).toEqual([]);
+    });
+
+    test('throws InvalidMoneyAddress for non-string endpoints', () => {
+      const didDocument: DidDocument = {
+        id: 'did:example:123',
+        service: [{ id: '#maddr', type: 'MaddrService', serviceEndpoint: { uri: 'urn:btc:addr:bc1q' } }]
+      };
+
+      expect(() => MoneyAddress.fromDidDocument(didDocument)).toThrow('Expected endpoint to be a string');
+    });
+  });
+
+  describe('fromDid', () => {
+    test('resolves the DID and returns its money addresses', async () => {
+      const did = await DidDht.create({
+        options: {
+          publish: false,
+          services: [{ id: 'maddr', type: 'MaddrService', serviceEndpoint: ['urn:btc:addr:bc1q'] }]
+        }
+      });
+
+      const didResolver = {
+        resolve: async () => ({ didDocument: did.document, didDocumentMetadata: {}, didResolutionMetadata: {} }),
+        dereference: async () => ({ contentStream: null, contentMetadata: {}, dereferencingMetadata: {} })
+      };
+
+      const maddrs = await MoneyAddress.fromDid(did.uri, didResolver);
+      expect(maddrs).toHaveLength(1);
+      expect(maddrs[0].address).toBe('bc1q');
+    });
+  });
+});
\ No newline at end of file
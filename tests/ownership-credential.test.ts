@@ -0,0 +1,96 @@
+import type { DidResolutionResult } from '@web5/dids';
+import type { DidResolverInterface } from '../src/did-resolver';
+
+import { Convert } from '@web5/common';
+import { BearerDid, DidJwk, DidMethod, UniversalResolver } from '@web5/dids';
+import { beforeAll, describe, expect, test } from 'bun:test';
+
+import { Dap } from '../src/dap';
+import { DapOwnershipCredential, InvalidDapOwnershipCredential } from '../src/ownership-credential';
+import { DapRegistration } from '../src/registration';
+
+describe('DapOwnershipCredential', () => {
+  let alice: BearerDid;
+  let registry: BearerDid;
+  let didResolver: DidResolverInterface;
+  let registration: DapRegistration;
+
+  beforeAll(async () => {
+    alice = await DidJwk.create();
+
+    // Re-issue a did:jwk as did:web:domain.com and resolve it locally.
+    const portableDid = await (await DidJwk.create()).export();
+    const didWeb = JSON.parse(JSON.stringify(portableDid).replaceAll(portableDid.uri, 'did:web:domain.com'));
+    registry = await BearerDid.import({ portableDid: didWeb });
+    class DidWebStub extends DidMethod {
+      static methodName = 'web';
+      static async resolve(): Promise<DidResolutionResult> {
+        return { didDocument: registry.document, didDocumentMetadata: {}, didResolutionMetadata: {} };
+      }
+    }
+    didResolver = new UniversalResolver({ didResolvers: [DidJwk, DidWebStub] });
+
+    registration = DapRegistration.create({ handle: 'alice', did: alice.uri, domain: 'domain.com' });
+    await registration.sign(alice);
+  });
+
+  test('issues and verifies a credential proving DAP ownership', async () => {
+    const credential = await DapOwnershipCredential.issue(registration, registry);
+
+    const result = await DapOwnershipCredential.verify(credential, { didResolver, dap: '@Alice/domain.com', did: alice.uri });
+
+    expect(result.dap).toEqual(new Dap('alice', 'domain.com'));
+    expect(result.did).toBe(alice.uri);
+    expect(result.issuer).toBe('did:web:domain.com');
+    expect(result.registrationId).toBe(registration.id.toString());
+    expect(result.expiresAt).toBeUndefined();
+
+    const claims = Convert.base64Url(credential.split('.')[1]).toObject() as any;
+    expect(claims.vc.type).toEqual(['VerifiableCredential', 'DapOwnershipCredential']);
+    expect(claims.vc.credentialSubject).toEqual({ id: alice.uri, dap: '@alice/domain.com', registrationId: registration.id.toString() });
+  });
+
+  test('rejects credentials for another DAP or DID', async () => {
+    const credential = await DapOwnershipCredential.issue(registration, registry);
+
+    await expect(DapOwnershipCredential.verify(credential, { didResolver, dap: '@bob/domain.com' })).rejects.toThrow('Expected credential for @bob/domain.com but got @alice/domain.com');
+    await expect(DapOwnershipCredential.verify(credential, { didResolver, did: 'did:example:bob' })).rejects.toThrow('Expected credential issued to did:example:bob');
+  });
+
+  test('only trusts the registry of the DAP\'s domain by default', async () => {
+    const otherRegistry = await DidJwk.create();
+    const credential = await DapOwnershipCredential.issue(registration, otherRegistry);
+
+    await expect(DapOwnershipCredential.verify(credential, { didResolver })).rejects.toThrow(`Issuer ${otherRegistry.uri} is not trusted for domain.com`);
+    expect((await DapOwnershipCredential.verify(credential, { didResolver, trustedIssuers: [otherRegistry.uri] })).issuer).toBe(otherRegistry.uri);
+  });
+
+  test('rejects expired credentials', async () => {
+    const expiresAt = new Date('2030-01-01T00:00:00Z');
+    const credential = await DapOwnershipCredential.issue(registration, registry, { expiresAt });
+
+    expect((await DapOwnershipCredential.verify(credential, { didResolver })).expiresAt).toEqual(expiresAt);
+    await expect(DapOwnershipCredential.verify(credential, { didResolver, clock: () => expiresAt })).rejects.toThrow(InvalidDapOwnershipCredential);
+  });
+
+  test('checks the credential status with the status checker', async () => {
+    const credentialStatus = { id: 'https://domain.com/status/1#42', type: 'StatusList2021Entry' };
+    const credential = await DapOwnershipCredential.issue(registration, registry, { credentialStatus });
+
+    const revoked = new Set<string>();
+    const statusChecker = { isRevoked: async (status: { id: string }) => revoked.has(status.id) };
+
+    expect((await DapOwnershipCredential.verify(credential, { didResolver, statusChecker })).did).toBe(alice.uri);
+
+    revoked.add(credentialStatus.id);
+    await expect(DapOwnershipCredential.verify(credential, { didResolver, statusChecker })).rejects.toThrow('Credential has been revoked');
+  });
+
+  test('rejects tampered credentials', async () => {
+    const [header, payload, signature] = (await DapOwnershipCredential.issue(registration, registry)).split('.');
+    const claims = Convert.base64Url(payload).toObject() as any;
+    claims.vc.credentialSubject.dap = '@mallory/domain.com';
+
+    await expect(DapOwnershipCredential.verify(`${header}.${Convert.object(claims).toBase64Url()}.${signature}`, { didResolver })).rejects.toThrow('Integrity mismatch');
+  });
+});
\ No newline at end of file
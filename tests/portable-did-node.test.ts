@@ -0,0 +1,42 @@
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Convert } from '@web5/common';
+import { BearerDid, DidJwk } from '@web5/dids';
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+
+import { DidStorage } from '../src/portable-did';
+import { NodeDidStorage } from '../src/portable-did-node';
+
+describe('NodeDidStorage', () => {
+  let alice: BearerDid;
+  let dir: string;
+  const options = { passphrase: 'correct horse battery staple', iterations: 1000 };
+
+  beforeAll(async () => {
+    alice = await DidJwk.create();
+    dir = await mkdtemp(join(tmpdir(), 'dap-did-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('writes files readable only by the owner and reads them back', async () => {
+    const path = join(dir, 'alice.json');
+    await NodeDidStorage.writeFile(alice, path, options);
+
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+    expect(JSON.parse(await readFile(path, 'utf8')).type).toBe('EncryptedPortableDid');
+    expect((await NodeDidStorage.readFile(path, options)).uri).toBe(alice.uri);
+  });
+
+  test('imports from JSON or Base64URL encoded environment variables', async () => {
+    const json = await DidStorage.serialize(alice);
+    const env = { DAP_DID: json, DAP_DID_B64: Convert.string(json).toBase64Url(), EMPTY: '' };
+
+    expect((await NodeDidStorage.fromEnv('DAP_DID', { env })).uri).toBe(alice.uri);
+    expect((await NodeDidStorage.fromEnv('DAP_DID_B64', { env })).uri).toBe(alice.uri);
+    await expect(NodeDidStorage.fromEnv('EMPTY', { env })).rejects.toThrow('Environment variable EMPTY is not set');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { BearerDid, DidJwk } from '@web5/dids';
+import { beforeAll, describe, expect, test } from 'bun:test';
+
+import { DidStorage, InvalidPortableDid } from '../src/portable-did';
+import { DapRegistration } from '../src/registration';
+
+describe('DidStorage', () => {
+  let alice: BearerDid;
+  const options = { passphrase: 'correct horse battery staple', iterations: 1000 };
+
+  beforeAll(async () => {
+    alice = await DidJwk.create();
+  });
+
+  test('round-trips a plaintext portable DID', async () => {
+    const json = await DidStorage.serialize(alice);
+    const imported = await DidStorage.deserialize(json);
+
+    expect(JSON.parse(json).uri).toBe(alice.uri);
+    expect(await imported.export()).toEqual(await alice.export());
+  });
+
+  test('round-trips an encrypted portable DID', async () => {
+    const json = await DidStorage.serialize(alice, options);
+    const imported = await DidStorage.deserialize(json, options);
+
+    expect(json).not.toContain(alice.uri);
+    expect(JSON.parse(json)).toMatchObject({ type: 'EncryptedPortableDid', kdf: 'PBKDF2-SHA256', iterations: 1000, enc: 'A256GCM' });
+    expect(imported.uri).toBe(alice.uri);
+  });
+
+  test('rejects encrypted DIDs without the right passphrase', async () => {
+    const json = await DidStorage.serialize(alice, options);
+
+    await expect(DidStorage.deserialize(json)).rejects.toThrow('A passphrase is required');
+    await expect(DidStorage.deserialize(json, { passphrase: 'wrong' })).rejects.toThrow('Wrong passphrase or corrupted data');
+  });
+
+  test('rejects malformed portable DIDs', async () => {
+    await expect(DidStorage.deserialize('{ not json')).rejects.toThrow(InvalidPortableDid);
+    await expect(DidStorage.deserialize('{}')).rejects.toThrow('Invalid portable DID');
+  });
+
+  test('imported DIDs can sign registrations', async () => {
+    const did = await DidStorage.deserialize(await DidStorage.serialize(alice, options), options);
+    const registration = DapRegistration.create({ handle: 'alice', did: did.uri, domain: 'domain.com' });
+    await registration.sign(did);
+
+    expect(await registration.verify()).toBe(alice.uri);
+  });
+});
\ No newline at end of file
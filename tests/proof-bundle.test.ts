@@ -0,0 +1,114 @@
+import type { DidResolutionResult } from '@web5/dids';
+
+import { BearerDid, DidJwk, DidMethod, UniversalResolver } from '@web5/dids';
+import { beforeAll, describe, expect, test } from 'bun:test';
+
+import { DapProofBundle, InvalidProofBundle } from '../src/proof-bundle';
+import { DapRegistration } from '../src/registration';
+
+describe('DapProofBundle', () => {
+  let alice: BearerDid;
+  let bob: BearerDid;
+  let registry: BearerDid;
+  let didResolver: UniversalResolver;
+
+  beforeAll(async () => {
+    alice = await DidJwk.create();
+    bob = await DidJwk.create();
+
+    // Re-issue a did:jwk as did:web:domain.com and resolve it locally.
+    const portableDid = await (await DidJwk.create()).export();
+    const didWeb = JSON.parse(JSON.stringify(portableDid).replaceAll(portableDid.uri, 'did:web:domain.com'));
+    registry = await BearerDid.import({ portableDid: didWeb });
+    class DidWebStub extends DidMethod {
+      static methodName = 'web';
+      static async resolve(): Promise<DidResolutionResult> {
+        return { didDocument: registry.document, didDocumentMetadata: {}, didResolutionMetadata: {} };
+      }
+    }
+    didResolver = new UniversalResolver({ didResolvers: [DidJwk, DidWebStub] });
+  });
+
+  const createSigned = async (expiresAt?: Date) => {
+    const registration = DapRegistration.create({ handle: 'alice', did: alice.uri, domain: 'domain.com', expiresAt });
+    await registration.sign(alice);
+    await registration.counterSign(registry);
+    return registration;
+  };
+
+  test('captures the resolution of every signer', async () => {
+    const registration = await createSigned();
+    const rotated = await registration.rotate(alice, bob);
+    await rotated.counterSign(registry);
+
+    const bundle = await DapProofBundle.create(rotated, { didResolver });
+
+    expect(Object.keys(bundle.resolutions).sort()).toEqual([alice.uri, bob.uri, 'did:web:domain.com'].sort());
+    expect(bundle.resolutions[bob.uri].result.didDocument).toEqual(bob.document);
+  });
+
+  test('verifies a serialized bundle without DID resolution', async () => {
+    const createdAt = new Date();
+    const bundle = await DapProofBundle.create(await createSigned(), { didResolver, clock: () => createdAt });
+
+    const result = await DapProofBundle.verifyBundle(JSON.stringify(bundle));
+
+    expect(result.did).toBe(alice.uri);
+    expect(result.registryDid).toBe('did:web:domain.com');
+    expect(result.previousDid).toBeUndefined();
+    expect(result.verifiedAsOf).toEqual(createdAt);
+    expect(result.trustedResolutions).toContainEqual({ did: alice.uri, resolvedAt: createdAt });
+  });
+
+  test('verifies the previous signature of a DID rotation', async () => {
+    const rotated = await (await createSigned()).rotate(alice, bob);
+    const bundle = await DapProofBundle.create(rotated, { didResolver });
+
+    const result = await DapProofBundle.verifyBundle(bundle.toJSON() as any);
+
+    expect(result.did).toBe(bob.uri);
+    expect(result.previousDid).toBe(alice.uri);
+  });
+
+  test('checks expiry as of when the bundle was created by default', async () => {
+    const expiresAt = new Date(Date.now() + 60_000);
+    const bundle = await DapProofBundle.create(await createSigned(expiresAt), { didResolver });
+
+    expect((await bundle.verify()).did).toBe(alice.uri);
+    await expect(bundle.verify({ now: new Date(expiresAt.getTime() + 1) })).rejects.toThrow('Expired at');
+  });
+
+  test('rejects bundles missing a signer resolution', async () => {
+    const bundle = await DapProofBundle.create(await createSigned(), { didResolver });
+    delete bundle.resolutions['did:web:domain.com'];
+
+    await expect(bundle.verify()).rejects.toThrow(InvalidProofBundle);
+  });
+
+  test('rejects bundles with a tampered DID document', async () => {
+    const bundle = await DapProofBundle.create(await createSigned(), { didResolver });
+    bundle.resolutions[alice.uri].result.didDocument = bob.document;
+
+    await expect(bundle.verify()).rejects.toThrow(`Expected a successful resolution of an active DID for ${alice.uri}`);
+  });
+
+  test('rejects a tampered registration', async () => {
+    const bundle = await DapProofBundle.create(await createSigned(), { didResolver });
+    const model = JSON.parse(JSON.stringify(bundle));
+    model.registration.handle = 'mallory';
+
+    await expect(DapProofBundle.verifyBundle(model)).rejects.toThrow('Integrity mismatch');
+  });
+
+  test('throws InvalidProofBundle for malformed bundles', () => {
+    expect(() => DapProofBundle.parse('not json')).toThrow('Failed to parse proof bundle');
+    expect(() => DapProofBundle.parse('{}')).toThrow('Expected registration and resolutions objects');
+    expect(() => DapProofBundle.parse(JSON.stringify({ registration: {}, resolutions: {}, createdAt: 'yesterday' }))).toThrow('Expected createdAt');
+  });
+
+  test('create rejects unsigned registrations', async () => {
+    const registration = DapRegistration.create({ handle: 'alice', did: alice.uri, domain: 'domain.com' });
+
+    await expect(DapProofBundle.create(registration, { didResolver })).rejects.toThrow('Registration is not signed');
+  });
+});
\ No newline at end of file
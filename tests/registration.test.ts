@@ -1,13 +1,17 @@
-import { DidJwk } from '@web5/dids';
-import { beforeEach, describe, expect, test } from 'bun:test';
+import type { DidResolutionResult } from '@web5/dids';
 
-import { DapRegistration } from '../src/registration'
+import { BearerDid, DidJwk, DidMethod, UniversalResolver } from '@web5/dids';
+import { beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+
+import { Crypto, InvalidJws } from '../src/crypto';
+import { DapRegistration, InvalidDapRegistration } from '../src/registration'
+import { InvalidRegistrationId } from '../src/registration-id';
 
 describe('DapRegistration', () => {
   let registration: DapRegistration;
 
   beforeEach(() => {
-    registration = DapRegistration.create({ handle: 'handle', did: 'did', domain: 'domain' });
+    registration = DapRegistration.create({ handle: 'handle', did: 'did:example:123', domain: 'domain.com' });
   });
 
   describe('computeDigest', () => {
@@ -19,15 +23,81 @@ describe('DapRegistration', () => {
 
   describe('create', () => {
     test('generates a unique ID each time', () => {
-      const another = DapRegistration.create({ handle: 'handle', did: 'did', domain: 'domain' });
+      const another = DapRegistration.create({ handle: 'handle', did: 'did:example:123', domain: 'domain.com' });
       expect(registration.id.toString()).not.toEqual(another.id.toString());
     });
   });
 
+  describe('validate', () => {
+    test('accepts a valid registration', () => {
+      expect(() => registration.validate()).not.toThrow();
+    });
+
+    test('throws InvalidDapRegistration for an invalid handle', () => {
+      const invalidHandles = ['', 'has space', 'has@sign', 'has/slash', 'a'.repeat(65)];
+
+      invalidHandles.forEach(handle => {
+        expect(() => DapRegistration.create({ handle, did: 'did:example:123', domain: 'domain.com' })).toThrow(InvalidDapRegistration);
+        expect(() => DapRegistration.create({ handle, did: 'did:example:123', domain: 'domain.com' })).toThrow('handle: Expected');
+      });
+    });
+
+    test('throws InvalidDapRegistration for an invalid domain', () => {
+      const invalidDomains = ['', 'domain..com', '-domain.com', 'domain-.com', 'dom ain.com', 'domain.com/path', `${'a'.repeat(64)}.com`];
+
+      invalidDomains.forEach(domain => {
+        expect(() => DapRegistration.create({ handle: 'handle', did: 'did:example:123', domain })).toThrow('domain: Expected a valid hostname');
+      });
+    });
+
+    test('create normalizes the handle and domain', () => {
+      const created = DapRegistration.create({ handle: 'Alice', did: 'did:example:123', domain: 'Example.COM' });
+      expect(created.handle).toBe('alice');
+      expect(created.domain).toBe('example.com');
+    });
+
+    test('throws InvalidDapRegistration for a non-normalized handle or domain', () => {
+      registration.handle = 'Alice';
+      registration.domain = 'Example.com';
+      expect(() => registration.validate()).toThrow('handle: Expected normalized handle "alice"; domain: Expected normalized domain "example.com"');
+    });
+
+    test('throws InvalidDapRegistration for a confusable handle', () => {
+      expect(() => DapRegistration.create({ handle: 'pаypal', did: 'did:example:123', domain: 'domain.com' })).toThrow('handle: Contains characters that can be confused');
+    });
+
+    test('throws InvalidDapRegistration for a confusable domain', () => {
+      expect(() => DapRegistration.create({ handle: 'alice', did: 'did:example:123', domain: 'exаmple.com' })).toThrow('domain: Contains characters that can be confused');
+      expect(() => DapRegistration.create({ handle: 'alice', did: 'did:example:123', domain: 'xn--exmple-4nf.com' })).toThrow('domain: Contains characters that can be confused');
+    });
+
+    test('throws InvalidDapRegistration for an invalid DID', () => {
+      expect(() => DapRegistration.create({ handle: 'handle', did: 'did', domain: 'domain.com' })).toThrow('did: Expected a valid DID URI');
+    });
+
+    test('collects every violation', () => {
+      try {
+        DapRegistration.create({ handle: '', did: 'did', domain: '' });
+        throw new Error('Expected validation to fail');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(InvalidDapRegistration);
+        expect(error.violations).toHaveLength(3);
+      }
+    });
+  });
+
   describe('parse', () => {
     test('throws InvalidRegistrationId for invalid Registration IDs', () => {
     });
 
+    test('throws InvalidDapRegistration for registrations that do not match the schema', async () => {
+      const error = await DapRegistration.parse(JSON.stringify({ id: registration.id.toString(), did: 123, domain: 'domain.com', signature: 'sig' })).catch(error => error);
+
+      expect(error).toBeInstanceOf(InvalidDapRegistration);
+      expect(error.violations).toEqual(['handle: Required', 'did: Expected string']);
+      await expect(DapRegistration.parse('[]' as any)).rejects.toThrow('(root): Expected object');
+    });
+
     test('returns an instance of DapRegistration if parsing is successful', async () => {
       const alice = await DidJwk.create();
       const registration = DapRegistration.create({
@@ -44,4 +114,230 @@ describe('DapRegistration', () => {
       expect(jsonRegistration).toEqual(JSON.stringify(parsedRegistration));
     });
   });
+
+  describe('lifecycle', () => {
+    let alice: BearerDid;
+    let bob: BearerDid;
+
+    beforeAll(async () => {
+      alice = await DidJwk.create();
+      bob = await DidJwk.create();
+    });
+
+    const createSigned = async (expiresAt?: Date) => {
+      const signed = DapRegistration.create({ handle: 'alice', did: alice.uri, domain: 'domain.com', expiresAt });
+      await signed.sign(alice);
+      return signed;
+    };
+
+    test('create records createdAt and version when expiresAt is provided', async () => {
+      const expiresAt = new Date(Date.now() + 60_000);
+      const created = await createSigned(expiresAt);
+
+      expect(created.createdAt).toEqual(created.id.extractDate());
+      expect(created.expiresAt).toEqual(expiresAt);
+      expect(created.version).toBe(1);
+    });
+
+    test('includes lifecycle fields in the digest', async () => {
+      const created = await createSigned(new Date(Date.now() + 60_000));
+      const digest = await created.computeDigest();
+
+      created.expiresAt = new Date(Date.now() + 120_000);
+      expect(await created.computeDigest()).not.toEqual(digest);
+    });
+
+    test('round-trips lifecycle fields through parse', async () => {
+      const created = await createSigned(new Date(Date.now() + 60_000));
+      const parsed = await DapRegistration.parse(JSON.stringify(created));
+
+      expect(JSON.stringify(parsed)).toEqual(JSON.stringify(created));
+    });
+
+    test('verify rejects expired registrations', async () => {
+      const created = await createSigned(new Date(Date.now() + 60_000));
+
+      await expect(created.verify({ now: new Date(Date.now() + 120_000) })).rejects.toThrow('Expired at');
+    });
+
+    test('verify checks expiry against the context clock', async () => {
+      const created = await createSigned(new Date(Date.now() + 60_000));
+
+      await expect(created.verify({ clock: () => new Date(Date.now() + 120_000) })).rejects.toThrow('Expired at');
+      expect(await created.verify({ clock: () => new Date() })).toBe(alice.uri);
+    });
+
+    test('verify rejects registrations created in the future', async () => {
+      const created = await createSigned(new Date(Date.now() + 60_000));
+
+      await expect(created.verify({ now: new Date(Date.now() - 60_000) })).rejects.toThrow('Created in the future');
+    });
+
+    test('validate rejects expiresAt before createdAt', () => {
+      expect(() => DapRegistration.create({ handle: 'alice', did: alice.uri, domain: 'domain.com', expiresAt: new Date(0) })).toThrow('expiresAt: Expected to be after createdAt');
+    });
+
+    test('renew creates a verified successor for the same DID', async () => {
+      const original = await createSigned();
+      const renewal = await original.renew(alice);
+
+      expect(renewal.did).toBe(alice.uri);
+      expect(renewal.version).toBe(2);
+      expect(renewal.previousId?.toString()).toBe(original.id.toString());
+      expect(await renewal.verify()).toBe(alice.uri);
+      await renewal.verifySuccessor(original);
+    });
+
+    test('renew throws if signed by another DID', async () => {
+      const original = await createSigned();
+
+      await expect(original.renew(bob)).rejects.toThrow(InvalidDapRegistration);
+    });
+
+    test('rotate creates a successor counter-signed by the previous DID', async () => {
+      const original = await createSigned();
+      const rotation = await original.rotate(alice, bob);
+
+      expect(rotation.did).toBe(bob.uri);
+      expect(await rotation.verify()).toBe(bob.uri);
+      await rotation.verifySuccessor(original);
+    });
+
+    test('verifySuccessor rejects rotations without the previous DID signature', async () => {
+      const original = await createSigned();
+      const rotation = await original.rotate(alice, bob);
+      rotation.previousSignature = undefined;
+
+      await expect(rotation.verifySuccessor(original)).rejects.toThrow('Expected DID rotation to be signed by the previous DID');
+    });
+
+    test('verifySuccessor rejects out of order registrations', async () => {
+      const original = await createSigned();
+      const renewal = await original.renew(alice);
+      const secondRenewal = await renewal.renew(alice);
+
+      await expect(secondRenewal.verifySuccessor(original)).rejects.toThrow('Expected previousId to be');
+    });
+  });
+
+  describe('counter-signatures', () => {
+    let alice: BearerDid;
+    let registry: BearerDid;
+    let didResolver: UniversalResolver;
+
+    beforeAll(async () => {
+      alice = await DidJwk.create();
+
+      // Re-issue a did:jwk as did:web:domain.com and resolve it locally.
+      const portableDid = await (await DidJwk.create()).export();
+      const didWeb = JSON.parse(JSON.stringify(portableDid).replaceAll(portableDid.uri, 'did:web:domain.com'));
+      registry = await BearerDid.import({ portableDid: didWeb });
+      class DidWebStub extends DidMethod {
+        static methodName = 'web';
+        static async resolve(): Promise<DidResolutionResult> {
+          return { didDocument: registry.document, didDocumentMetadata: {}, didResolutionMetadata: {} };
+        }
+      }
+      didResolver = new UniversalResolver({ didResolvers: [DidJwk, DidWebStub] });
+    });
+
+    test('verifies a counter-signature by the domain DID', async () => {
+      const registration = DapRegistration.create({ handle: 'alice', did: alice.uri, domain: 'domain.com' });
+      await registration.sign(alice);
+      await registration.counterSign(registry);
+
+      expect(await registration.verifyCounterSignature({ didResolver })).toBe('did:web:domain.com');
+      expect(await registration.verify({ didResolver })).toBe(alice.uri);
+    });
+
+    test('rejects a counter-signature by another DID', async () => {
+      const registration = DapRegistration.create({ handle: 'alice', did: alice.uri, domain: 'domain.com' });
+      await registration.sign(alice);
+      await registration.counterSign(alice);
+
+      await expect(registration.verifyCounterSignature({ didResolver })).rejects.toThrow('Expected registry signature by did:web:domain.com');
+    });
+
+    test('rejects a missing counter-signature', async () => {
+      const registration = DapRegistration.create({ handle: 'alice', did: alice.uri, domain: 'domain.com' });
+      await registration.sign(alice);
+
+      await expect(registration.verifyCounterSignature({ didResolver })).rejects.toThrow('Registry signature is missing');
+    });
+
+    test('toGeneralJws combines the signatures', async () => {
+      const registration = DapRegistration.create({ handle: 'alice', did: alice.uri, domain: 'domain.com' });
+      await registration.sign(alice);
+      await registration.counterSign(registry);
+
+      const jws = registration.toGeneralJws();
+      const signers = await Crypto.verifyGeneral({ jws, detachedPayload: await registration.computeDigest(), didResolver });
+
+      expect(signers).toEqual([alice.uri, 'did:web:domain.com']);
+    });
+  });
+
+  describe('parseBatch', () => {
+    let alice: BearerDid;
+    let resolutions: number;
+    let didResolver: UniversalResolver;
+
+    beforeAll(async () => {
+      alice = await DidJwk.create();
+
+      class CountingDidJwk extends DidJwk {
+        static async resolve(didUri: string): Promise<DidResolutionResult> {
+          resolutions++;
+          return DidJwk.resolve(didUri);
+        }
+      }
+      didResolver = new UniversalResolver({ didResolvers: [CountingDidJwk] });
+    });
+
+    const createSigned = async (handle: string) => {
+      const registration = DapRegistration.create({ handle, did: alice.uri, domain: 'domain.com' });
+      await registration.sign(alice);
+      return registration.toJSON() as any;
+    };
+
+    test('returns per-item results in input order', async () => {
+      const valid = await createSigned('alice');
+      const tampered = { ...await createSigned('bob'), handle: 'mallory' };
+      const invalidId = { ...await createSigned('carol'), id: 'not-an-id' };
+      const invalidHandle = { ...await createSigned('dave'), handle: 'd a v e' };
+
+      const results = await DapRegistration.parseBatch([valid, tampered, invalidId, invalidHandle, 'not json'], { didResolver });
+
+      expect(results.map(result => result.index)).toEqual([0, 1, 2, 3, 4]);
+      expect(results[0].success && results[0].registration.handle).toBe('alice');
+      expect(!results[1].success && results[1].error).toBeInstanceOf(InvalidJws);
+      expect(!results[2].success && results[2].error).toBeInstanceOf(InvalidRegistrationId);
+      expect(!results[3].success && results[3].error).toBeInstanceOf(InvalidDapRegistration);
+      expect(!results[4].success && results[4].error).toBeInstanceOf(InvalidDapRegistration);
+    });
+
+    test('resolves each DID once per batch', async () => {
+      const registrations = await Promise.all(['a', 'b', 'c', 'd', 'e'].map(createSigned));
+      resolutions = 0;
+
+      const results = await DapRegistration.parseBatch(registrations, { didResolver, concurrency: 2 });
+
+      expect(results.every(result => result.success)).toBeTrue();
+      expect(resolutions).toBe(1);
+    });
+
+    test('verifies every registration with invalid concurrencies', async () => {
+      const registrations = await Promise.all(['a', 'b', 'c'].map(createSigned));
+
+      for (const concurrency of [NaN, 0, -1, 1.5, Infinity, '2' as any]) {
+        const results = await DapRegistration.parseBatch(registrations, { didResolver, concurrency });
+
+        expect(results.filter(result => result.success)).toHaveLength(3);
+      }
+    });
+
+    test('returns an empty array for an empty batch', async () => {
+      expect(await DapRegistration.parseBatch([])).toEqual([]);
+    });
+  });
 });
\ No newline at end of file
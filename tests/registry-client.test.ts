@@ -0,0 +1,387 @@
+import { DidJwk, UniversalResolver } from '@web5/dids';
+import { beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+
+import type { Fetch } from '../src/dap-resolver';
+import type { DidResolverInterface } from '../src/did-resolver';
+
+import { DidResolver } from '../src/did-resolver';
+import { DapRegistration } from '../src/registration';
+import {
+  DapRegistryClient,
+  RegistryConflictError,
+  RegistryDiscoveryError,
+  RegistryError,
+  RegistryMalformedResponseError,
+  RegistryNetworkError,
+  RegistryNotFoundError,
+  RegistryRateLimitedError,
+  RegistryServerError,
+  RegistryTimeoutError,
+  RegistryUnauthorizedError,
+  RegistryValidationError,
+} from '../src/registry-client';
+import { DapRequestVerifier } from '../src/request-auth';
+
+describe('DapRegistryClient', () => {
+  let registration: DapRegistration;
+  let requests: Request[];
+  let client: DapRegistryClient;
+
+  beforeAll(async () => {
+    const alice = await DidJwk.create();
+    registration = DapRegistration.create({ handle: 'alice', did: alice.uri, domain: 'domain.com' });
+    await registration.sign(alice);
+  });
+
+  beforeEach(() => {
+    requests = [];
+    const fetch: Fetch = async (input, init) => {
+      const request = new Request(input, init);
+      requests.push(request);
+
+      const { pathname, searchParams } = new URL(request.url);
+      if (pathname === '/metadata') {
+        return Response.json({ enabled: true });
+      }
+      if (searchParams.has('did')) {
+        return Response.json({ proofs: [registration.toJSON()] });
+      }
+      return Response.json({ proof: registration.toJSON() });
+    };
+    client = new DapRegistryClient('https://registry.domain.com', { fetch });
+  });
+
+  test('uses the registry URL without query or trailing slash as the base URL', () => {
+    expect(client.registryBaseUrl).toBe('https://registry.domain.com');
+    expect(new DapRegistryClient('https://domain.com/registry/?x=1#y').registryBaseUrl).toBe('https://domain.com/registry');
+  });
+
+  test('register POSTs the registration to /daps', async () => {
+    const response = await client.register(registration);
+
+    expect(response).toEqual({ proof: registration.toJSON() as any });
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].url).toBe('https://registry.domain.com/daps');
+    expect(requests[0].headers.get('Content-Type')).toBe('application/json');
+    expect(await requests[0].json()).toEqual(registration.toJSON());
+  });
+
+  test('getRegistration GETs the handle', async () => {
+    await client.getRegistration('alice');
+
+    expect(requests[0].method).toBe('GET');
+    expect(requests[0].url).toBe('https://registry.domain.com/daps/alice');
+  });
+
+  test('getVerifiedRegistration verifies the registration with the client context', async () => {
+    const fetch: Fetch = async () => Response.json({ proof: registration.toJSON() });
+    const verifier = { verify: async () => false };
+
+    const verified = await new DapRegistryClient('https://registry.domain.com', { fetch }).getVerifiedRegistration('Alice');
+    expect(verified).toBeInstanceOf(DapRegistration);
+    expect(verified.did).toBe(registration.did);
+
+    await expect(new DapRegistryClient('https://registry.domain.com', { fetch, verifier }).getVerifiedRegistration('alice')).rejects.toThrow('Integrity mismatch');
+    await expect(new DapRegistryClient('https://registry.domain.com', { fetch }).getVerifiedRegistration('bob')).rejects.toThrow('Expected registration for handle bob');
+  });
+
+  test('lookupByDid GETs registrations filtered by DID', async () => {
+    await client.lookupByDid('did:jwk:123');
+
+    expect(requests[0].method).toBe('GET');
+    expect(requests[0].url).toBe('https://registry.domain.com/daps?did=did%3Ajwk%3A123');
+  });
+
+  test('getMetadata GETs /metadata', async () => {
+    await client.getMetadata();
+
+    expect(requests[0].method).toBe('GET');
+    expect(requests[0].url).toBe('https://registry.domain.com/metadata');
+  });
+
+  test('update PUTs the registration to the handle', async () => {
+    await client.update(registration);
+
+    expect(requests[0].method).toBe('PUT');
+    expect(requests[0].url).toBe('https://registry.domain.com/daps/alice');
+    expect(await requests[0].json()).toEqual(registration.toJSON());
+  });
+
+  test('deregister DELETEs the handle with a signed registration', async () => {
+    await client.deregister(registration);
+
+    expect(requests[0].method).toBe('DELETE');
+    expect(requests[0].url).toBe('https://registry.domain.com/daps/alice');
+    expect(await requests[0].json()).toEqual(registration.toJSON());
+  });
+
+  test('authenticates requests that change registrations with the signer DID', async () => {
+    const signer = await DidJwk.create();
+    const fetch: Fetch = async (input, init) => {
+      requests.push(new Request(input, init));
+      return Response.json({ proof: registration.toJSON() });
+    };
+    const signedClient = new DapRegistryClient('https://registry.domain.com', { fetch, signer });
+
+    await signedClient.update(registration);
+    await signedClient.getRegistration('alice');
+
+    expect(await new DapRequestVerifier().verify(requests[0])).toBe(signer.uri);
+    expect(requests[1].headers.has('Authorization')).toBeFalse();
+  });
+
+  describe('errors', () => {
+    const respondWith = (response: Response | Error) => new DapRegistryClient('https://registry.domain.com', {
+      fetch: async () => {
+        if (response instanceof Error) {
+          throw response;
+        }
+        return response;
+      },
+      retry: { retries: 0 },
+    });
+
+    const errorResponse = (status: number, headers?: HeadersInit) =>
+      Response.json({ error: { message: `failed with ${status}` } }, { status, headers: { 'X-Request-Id': 'req-123', ...headers } });
+
+    test('maps HTTP status codes to typed errors', async () => {
+      const cases: [number, typeof RegistryError][] = [
+        [400, RegistryValidationError],
+        [422, RegistryValidationError],
+        [401, RegistryUnauthorizedError],
+        [403, RegistryUnauthorizedError],
+        [404, RegistryNotFoundError],
+        [409, RegistryConflictError],
+        [429, RegistryRateLimitedError],
+        [500, RegistryServerError],
+        [503, RegistryServerError],
+        [418, RegistryError],
+      ];
+
+      for (const [status, errorClass] of cases) {
+        const error = await respondWith(errorResponse(status)).register(registration).catch(error => error);
+
+        expect(error).toBeInstanceOf(errorClass);
+        expect(error.status).toBe(status);
+        expect(error.requestId).toBe('req-123');
+        expect(error.message).toBe(`failed with ${status}`);
+      }
+    });
+
+    test('includes Retry-After when rate limited', async () => {
+      const error = await respondWith(errorResponse(429, { 'Retry-After': '30' })).getMetadata().catch(error => error);
+
+      expect(error).toBeInstanceOf(RegistryRateLimitedError);
+      expect(error.retryAfter).toBe('30');
+    });
+
+    test('maps error responses without a JSON body by status code', async () => {
+      const error = await respondWith(new Response('Bad Gateway', { status: 502 })).getMetadata().catch(error => error);
+
+      expect(error).toBeInstanceOf(RegistryServerError);
+      expect(error.message).toBe('Registry responded with status 502');
+    });
+
+    test('throws RegistryMalformedResponseError for successful responses that are not JSON', async () => {
+      const error = await respondWith(new Response('not json', { status: 200 })).getMetadata().catch(error => error);
+
+      expect(error).toBeInstanceOf(RegistryMalformedResponseError);
+      expect(error.status).toBe(200);
+    });
+
+    test('throws RegistryMalformedResponseError for responses that do not match the schema', async () => {
+      const error = await respondWith(Response.json({ proof: { ...registration.toJSON(), did: 123 } })).getRegistration('alice').catch(error => error);
+
+      expect(error).toBeInstanceOf(RegistryMalformedResponseError);
+      expect(error.message).toBe('Registry returned an invalid response: proof.did: Expected string');
+      await expect(respondWith(Response.json({ enabled: 'yes' })).getMetadata()).rejects.toThrow('enabled: Expected boolean');
+    });
+
+    test('ignores error bodies that do not match the ErrorResponse schema', async () => {
+      const error = await respondWith(Response.json({ error: 'nope' }, { status: 400 })).getMetadata().catch(error => error);
+
+      expect(error).toBeInstanceOf(RegistryValidationError);
+      expect(error.message).toBe('Registry responded with status 400');
+    });
+
+    test('throws RegistryNetworkError if the registry cannot be reached', async () => {
+      const error = await respondWith(new TypeError('fetch failed')).getMetadata().catch(error => error);
+
+      expect(error).toBeInstanceOf(RegistryNetworkError);
+      expect(error.message).toContain('fetch failed');
+      expect(error.status).toBeUndefined();
+    });
+  });
+
+  describe('retries and timeouts', () => {
+    /** Responds with each response in turn, recording how many requests were made. */
+    const respondInTurn = (...responses: (() => Response | Error)[]) => {
+      const fetch: Fetch & { calls: number } = Object.assign(async () => {
+        const response = responses[Math.min(fetch.calls++, responses.length - 1)]();
+        if (response instanceof Error) {
+          throw response;
+        }
+        return response;
+      }, { calls: 0 });
+      return fetch;
+    };
+
+    /** Never responds, until the request is aborted. */
+    const hangingFetch: Fetch = (_input, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+    });
+
+    const unavailable = (headers?: HeadersInit) => () => Response.json({ error: { message: 'Unavailable' } }, { status: 503, headers });
+    const metadata = () => Response.json({ enabled: true });
+
+    test('retries idempotent requests after network failures and 502/503/504 responses', async () => {
+      const fetch = respondInTurn(() => new TypeError('fetch failed'), () => new Response('Bad Gateway', { status: 502 }), unavailable(), metadata);
+      const client = new DapRegistryClient('https://registry.domain.com', { fetch, retry: { retries: 3, minDelay: 1 } });
+
+      expect(await client.getMetadata()).toEqual({ enabled: true });
+      expect(fetch.calls).toBe(4);
+    });
+
+    test('gives up after the configured number of retries', async () => {
+      const fetch = respondInTurn(unavailable());
+      const client = new DapRegistryClient('https://registry.domain.com', { fetch, retry: { retries: 2, minDelay: 1 } });
+
+      await expect(client.getMetadata()).rejects.toThrow(RegistryServerError);
+      expect(fetch.calls).toBe(3);
+    });
+
+    test('retries registrations only when the registry asks to', async () => {
+      const failing = respondInTurn(() => new TypeError('fetch failed'), () => Response.json({ proof: registration.toJSON() }));
+      await expect(new DapRegistryClient('https://registry.domain.com', { fetch: failing, retry: { minDelay: 1 } }).register(registration)).rejects.toThrow(RegistryNetworkError);
+      expect(failing.calls).toBe(1);
+
+      const rateLimited = respondInTurn(() => Response.json({ error: { message: 'Slow down' } }, { status: 429, headers: { 'Retry-After': '0' } }), () => Response.json({ proof: registration.toJSON() }));
+      expect((await new DapRegistryClient('https://registry.domain.com', { fetch: rateLimited }).register(registration)).proof.handle).toBe('alice');
+      expect(rateLimited.calls).toBe(2);
+    });
+
+    test('fails without waiting if Retry-After exceeds the maximum delay', async () => {
+      const fetch = respondInTurn(unavailable({ 'Retry-After': '3600' }), metadata);
+      const error = await new DapRegistryClient('https://registry.domain.com', { fetch }).getMetadata().catch(error => error);
+
+      expect(error).toBeInstanceOf(RegistryServerError);
+      expect(error.retryAfter).toBe('3600');
+      expect(fetch.calls).toBe(1);
+    });
+
+    test('throws RegistryTimeoutError if the registry does not respond in time', async () => {
+      const client = new DapRegistryClient('https://registry.domain.com', { fetch: hangingFetch, timeout: 10, retry: { retries: 1, minDelay: 1 } });
+
+      const error = await client.getMetadata().catch(error => error);
+      expect(error).toBeInstanceOf(RegistryTimeoutError);
+      expect(error).toBeInstanceOf(RegistryNetworkError);
+
+      await expect(client.getRegistration('alice', { timeout: 5 })).rejects.toThrow('did not respond within 5ms');
+    });
+
+    test('times out fetching the well-known document during discovery', async () => {
+      const discovery = DapRegistryClient.discover('domain.com', { sources: ['well-known'], fetch: hangingFetch, timeout: 10, retry: { retries: 0 } });
+
+      await expect(discovery).rejects.toThrow('did not respond within 10ms');
+    });
+
+    test('times out resolving the domain DID during discovery', async () => {
+      const didResolver = { resolve: () => new Promise<never>(() => {}), dereference: () => new Promise<never>(() => {}) };
+      const discovery = DapRegistryClient.discover('domain.com', { sources: ['did'], didResolver, fetch: hangingFetch, timeout: 10 });
+
+      await expect(discovery).rejects.toThrow('did: Failed to resolve did:web:domain.com: Did not respond within 10ms');
+    });
+
+    test('aborts requests and pending retries with the signal', async () => {
+      const client = new DapRegistryClient('https://registry.domain.com', { fetch: hangingFetch });
+      const controller = new AbortController();
+      const request = client.getMetadata({ signal: controller.signal });
+      controller.abort(new Error('Cancelled'));
+      await expect(request).rejects.toThrow('Cancelled');
+
+      const retrying = new DapRegistryClient('https://registry.domain.com', { fetch: respondInTurn(unavailable({ 'Retry-After': '5' })) });
+      await expect(retrying.getMetadata({ signal: AbortSignal.timeout(20) })).rejects.toThrow();
+      await expect(client.getMetadata({ signal: AbortSignal.abort() })).rejects.toThrow();
+    });
+  });
+
+  describe('discover', () => {
+    const didResolver: DidResolverInterface = {
+      resolve: async (didUri) => didUri !== 'did:web:domain.com' ? DidResolver.resolve(didUri) : {
+        didDocument: { id: didUri, service: [{ id: '#dap', type: 'DAPRegistry', serviceEndpoint: 'https://domain.com/dap/' }] },
+        didDocumentMetadata: {},
+        didResolutionMetadata: {},
+      },
+      dereference: (didUrl) => DidResolver.dereference(didUrl),
+    };
+
+    /** A stand-in domain serving the given well-known document and registry metadata. */
+    const createFetch = (metadata: object, wellKnown?: object): Fetch => async (input) => {
+      const url = input.toString();
+      if (url === 'https://domain.com/.well-known/dap-registry' && wellKnown) {
+        return Response.json(wellKnown);
+      }
+      if (url.endsWith('/metadata')) {
+        return Response.json(metadata);
+      }
+      return Response.json({ error: { message: 'Not found' } }, { status: 404 });
+    };
+
+    test('discovers the registry through the domain DID', async () => {
+      const client = await DapRegistryClient.discover('Domain.com', { didResolver, fetch: createFetch({ enabled: true }) });
+
+      expect(client.registryBaseUrl).toBe('https://domain.com/dap');
+      expect(client.metadata).toEqual({ enabled: true });
+    });
+
+    test('falls back to the well-known document', async () => {
+      const fetch = createFetch({ enabled: true }, { registryUrl: 'https://registry.domain.com' });
+      const client = await DapRegistryClient.discover('domain.com', { didResolver: new UniversalResolver({ didResolvers: [] }), fetch });
+
+      expect(client.registryBaseUrl).toBe('https://registry.domain.com');
+    });
+
+    test('reports every failed source', async () => {
+      const discovery = DapRegistryClient.discover('domain.com', { sources: ['well-known'], fetch: createFetch({ enabled: true }) });
+
+      await expect(discovery).rejects.toThrow(RegistryDiscoveryError);
+      await expect(discovery).rejects.toThrow('well-known: https://domain.com/.well-known/dap-registry responded with status 404');
+    });
+
+    test('rejects well-known registry URLs that are not absolute HTTPS URLs', async () => {
+      for (const registryUrl of ['registry', 'http://registry.domain.com']) {
+        const discovery = DapRegistryClient.discover('domain.com', { sources: ['well-known'], fetch: createFetch({ enabled: true }, { registryUrl }) });
+
+        await expect(discovery).rejects.toThrow(RegistryDiscoveryError);
+        await expect(discovery).rejects.toThrow('well-known: Expected registry URL');
+      }
+    });
+
+    test('rejects DAPRegistry service endpoints that do not use HTTPS', async () => {
+      const httpDidResolver: DidResolverInterface = {
+        resolve: async (didUri) => ({
+          didDocument: { id: didUri, service: [{ id: '#dap', type: 'DAPRegistry', serviceEndpoint: 'http://domain.com/dap' }] },
+          didDocumentMetadata: {},
+          didResolutionMetadata: {},
+        }),
+        dereference: (didUrl) => DidResolver.dereference(didUrl),
+      };
+      const discovery = DapRegistryClient.discover('domain.com', { sources: ['did'], didResolver: httpDidResolver, fetch: createFetch({ enabled: true }) });
+
+      await expect(discovery).rejects.toThrow('did: Expected DAPRegistry service endpoint of did:web:domain.com to use HTTPS');
+    });
+
+    test('rejects disabled registries', async () => {
+      const discovery = DapRegistryClient.discover('domain.com', { didResolver, fetch: createFetch({ enabled: false }) });
+
+      await expect(discovery).rejects.toThrow('does not accept registrations');
+    });
+
+    test('rejects registries that do not support the DID method', async () => {
+      const fetch = createFetch({ enabled: true, supportedDidMethods: ['dht'] });
+
+      await expect(DapRegistryClient.discover('domain.com', { didResolver, fetch, didMethod: 'did:jwk:abc' })).rejects.toThrow('does not support DID method "jwk"');
+      expect(await DapRegistryClient.discover('domain.com', { didResolver, fetch, didMethod: 'dht' })).toBeInstanceOf(DapRegistryClient);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,220 @@
+import { BearerDid, DidJwk } from '@web5/dids';
+import { beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+
+import { Crypto } from '../src/crypto';
+import { DidConfiguration, InvalidDomainLinkage } from '../src/did-configuration';
+import { DapRegistration } from '../src/registration';
+import { DapRegistryClient, RegistryConflictError, RegistryNotFoundError, RegistryUnauthorizedError, RegistryValidationError } from '../src/registry-client';
+import { DapRegistryServer, InMemoryRegistrationStore } from '../src/registry-server';
+import { DapRequestVerifier } from '../src/request-auth';
+
+describe('DapRegistryServer', () => {
+  let alice: BearerDid;
+  let bob: BearerDid;
+  let server: DapRegistryServer;
+  let client: DapRegistryClient;
+
+  const createRegistration = async (did: BearerDid, handle = 'alice', domain = 'domain.com') => {
+    const registration = DapRegistration.create({ handle, did: did.uri, domain });
+    await registration.sign(did);
+    return registration;
+  };
+
+  beforeAll(async () => {
+    alice = await DidJwk.create();
+    bob = await DidJwk.create();
+  });
+
+  beforeEach(() => {
+    server = new DapRegistryServer({ domain: 'domain.com', store: new InMemoryRegistrationStore() });
+    client = new DapRegistryClient('https://registry.domain.com', { fetch: async (input, init) => server.handle(new Request(input, init)) });
+  });
+
+  test('serves metadata', async () => {
+    expect(await client.getMetadata()).toEqual({ enabled: true });
+  });
+
+  test('registers and serves a registration', async () => {
+    const registration = await createRegistration(alice);
+
+    const { proof } = await client.register(registration);
+    expect(proof).toEqual(registration.toJSON() as any);
+
+    expect(await client.getRegistration('alice')).toEqual({ proof });
+    expect(await client.lookupByDid(alice.uri)).toEqual({ proofs: [proof] });
+    expect(await client.lookupByDid(bob.uri)).toEqual({ proofs: [] });
+  });
+
+  test('counter-signs accepted registrations with the registry DID', async () => {
+    const registryDid = await DidJwk.create();
+    server = new DapRegistryServer({ domain: 'domain.com', registryDid });
+
+    const { proof } = await client.register(await createRegistration(alice));
+
+    expect(proof.registrySignature).toBeString();
+    expect(await Crypto.verify({ jws: proof.registrySignature!, detachedPayload: await DapRegistration.fromModel(proof).computeDigest() })).toBe(registryDid.uri);
+  });
+
+  test('drops registry signatures supplied by the client', async () => {
+    const registration = await createRegistration(alice);
+    await registration.counterSign(alice);
+
+    const { proof } = await client.register(registration);
+
+    expect(proof.registrySignature).toBeUndefined();
+  });
+
+  test('enforces handle uniqueness', async () => {
+    await client.register(await createRegistration(alice));
+
+    await expect(client.register(await createRegistration(bob))).rejects.toThrow(RegistryConflictError);
+  });
+
+  test('enforces handle uniqueness for concurrent registrations', async () => {
+    const registrations = [await createRegistration(alice), await createRegistration(bob)];
+
+    const responses = await Promise.all(registrations.map(registration => server.handle(new Request('https://registry.domain.com/daps', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(registration.toJSON()),
+    }))));
+
+    const statuses = responses.map(response => response.status);
+    expect(statuses.toSorted()).toEqual([201, 409]);
+    expect((await client.getRegistration('alice')).proof.did).toBe(registrations[statuses.indexOf(201)].did);
+  });
+
+  test('returns 400 for malformed percent-encoded handles', async () => {
+    const response = await server.handle(new Request('https://registry.domain.com/daps/%E0%A4%A'));
+
+    expect(response.status).toBe(400);
+  });
+
+  test('rejects registrations with an invalid signature', async () => {
+    const registration = await createRegistration(alice);
+    registration.did = bob.uri;
+
+    await expect(client.register(registration)).rejects.toThrow(RegistryValidationError);
+  });
+
+  test('rejects registrations for another domain', async () => {
+    await expect(client.register(await createRegistration(alice, 'alice', 'other.com'))).rejects.toThrow('Expected registration for domain "domain.com"');
+  });
+
+  test('rejects registrations when registration is disabled', async () => {
+    server = new DapRegistryServer({ domain: 'domain.com', metadata: { enabled: false } });
+
+    await expect(client.register(await createRegistration(alice))).rejects.toThrow(RegistryUnauthorizedError);
+  });
+
+  test('rejects unsupported DID methods', async () => {
+    server = new DapRegistryServer({ domain: 'domain.com', metadata: { enabled: true, supportedDidMethods: ['dht'] } });
+
+    await expect(client.register(await createRegistration(alice))).rejects.toThrow('DID method "jwk" is not supported');
+  });
+
+  test('returns 404 for unknown handles', async () => {
+    await expect(client.getRegistration('nobody')).rejects.toThrow(RegistryNotFoundError);
+  });
+
+  test('updates a registration signed by the current DID', async () => {
+    await client.register(await createRegistration(alice));
+    const renewal = await createRegistration(alice);
+
+    const { proof } = await client.update(renewal);
+
+    expect(proof.id).toBe(renewal.id.toString());
+    expect(await client.getRegistration('alice')).toEqual({ proof });
+  });
+
+  test('rejects updates signed by another DID', async () => {
+    await client.register(await createRegistration(alice));
+
+    await expect(client.update(await createRegistration(bob))).rejects.toThrow(RegistryUnauthorizedError);
+  });
+
+  test('accepts DID rotations authorized by the current DID', async () => {
+    const original = await createRegistration(alice);
+    await client.register(original);
+
+    const { proof } = await client.update(await original.rotate(alice, bob));
+
+    expect(proof.did).toBe(bob.uri);
+    expect(proof.previousId).toBe(original.id.toString());
+  });
+
+  test('rejects DID rotations that do not chain onto the current registration', async () => {
+    const original = await createRegistration(alice);
+    await client.register(original);
+    await client.update(await original.renew(alice));
+
+    await expect(client.update(await original.rotate(alice, bob))).rejects.toThrow('Expected previousId to be');
+  });
+
+  test('rejects replayed registrations', async () => {
+    const original = await createRegistration(alice);
+    await client.register(original);
+
+    await expect(client.update(original)).rejects.toThrow('Expected registration to be newer than the current registration');
+  });
+
+  test('deregisters a handle', async () => {
+    const registration = await createRegistration(alice);
+    await client.register(registration);
+
+    const { proof } = await client.deregister(await createRegistration(alice));
+
+    expect(proof.id).toBe(registration.id.toString());
+    await expect(client.getRegistration('alice')).rejects.toThrow(RegistryNotFoundError);
+  });
+
+  test('requires updates and deregistrations to be authenticated by the current DID if a request verifier is set', async () => {
+    server = new DapRegistryServer({ domain: 'domain.com', requestVerifier: new DapRequestVerifier() });
+    const fetch = async (input: RequestInfo | URL, init?: RequestInit) => server.handle(new Request(input, init));
+    const signedBy = (signer: BearerDid) => new DapRegistryClient('https://registry.domain.com', { fetch, signer });
+
+    await client.register(await createRegistration(alice));
+
+    const unauthenticated = await client.update(await createRegistration(alice)).catch(error => error);
+    expect(unauthenticated).toBeInstanceOf(RegistryUnauthorizedError);
+    expect(unauthenticated.status).toBe(401);
+
+    const otherDid = await signedBy(bob).deregister(await createRegistration(alice)).catch(error => error);
+    expect(otherDid.status).toBe(403);
+    expect(otherDid.message).toBe(`Expected request to be authenticated by ${alice.uri}`);
+
+    await signedBy(alice).update(await createRegistration(alice));
+    await signedBy(alice).deregister(await createRegistration(alice));
+    await expect(client.getRegistration('alice')).rejects.toThrow(RegistryNotFoundError);
+  });
+
+  test('serves a DID Configuration linking the registry DID to the domain', async () => {
+    const registryDid = await DidJwk.create();
+    const didConfiguration = await DidConfiguration.create([registryDid], { origin: 'domain.com', expiresAt: new Date(Date.now() + 60_000) });
+    server = new DapRegistryServer({ domain: 'domain.com', registryDid, didConfiguration });
+    client = new DapRegistryClient('https://domain.com', { fetch: async (input, init) => server.handle(new Request(input, init)) });
+
+    const { proof } = await client.register(await createRegistration(alice));
+
+    expect(await client.verifyDomainLinkage(DapRegistration.fromModel(proof))).toBe(registryDid.uri);
+    await expect(client.verifyDomainLinkage(await createRegistration(alice))).rejects.toThrow('Registry signature is missing');
+
+    const otherRegistry = new DapRegistryServer({ domain: 'domain.com', registryDid: await DidJwk.create(), didConfiguration });
+    const { proof: otherProof } = await new DapRegistryClient('https://domain.com', { fetch: async (input, init) => otherRegistry.handle(new Request(input, init)) }).register(await createRegistration(alice));
+    await expect(client.verifyDomainLinkage(DapRegistration.fromModel(otherProof))).rejects.toThrow(InvalidDomainLinkage);
+  });
+
+  test('returns an ErrorResponse with a request ID for unknown routes', async () => {
+    const response = await server.handle(new Request('https://registry.domain.com/unknown'));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: { message: 'Not found' } });
+    expect(response.headers.get('X-Request-Id')).toBeString();
+  });
+
+  test('returns 405 for unsupported methods', async () => {
+    const response = await server.handle(new Request('https://registry.domain.com/metadata', { method: 'POST' }));
+
+    expect(response.status).toBe(405);
+  });
+});
\ No newline at end of file
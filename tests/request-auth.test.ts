@@ -0,0 +1,85 @@
+import type { BearerDid } from '@web5/dids';
+
+import { Convert } from '@web5/common';
+import { DidJwk } from '@web5/dids';
+import { beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+
+import { Crypto } from '../src/crypto';
+import { DapRequestAuth, DapRequestVerifier, InvalidRequestAuth } from '../src/request-auth';
+
+describe('DapRequestAuth', () => {
+  const url = 'https://registry.domain.com/daps/alice';
+  const body = JSON.stringify({ handle: 'alice' });
+
+  let alice: BearerDid;
+  let verifier: DapRequestVerifier;
+
+  const authenticatedRequest = (token: string, init: RequestInit = { method: 'PUT', body }) =>
+    new Request(url, { ...init, headers: { Authorization: `Bearer ${token}` } });
+
+  beforeAll(async () => {
+    alice = await DidJwk.create();
+  });
+
+  beforeEach(() => {
+    verifier = new DapRequestVerifier();
+  });
+
+  test('authenticates a request with a token signed by the caller\'s DID', async () => {
+    const token = await DapRequestAuth.createToken({ did: alice, method: 'put', url, body });
+
+    const request = authenticatedRequest(token);
+    expect(await verifier.verify(request)).toBe(alice.uri);
+    expect(await request.text()).toBe(body); // The body is left for the handler.
+
+    const claims = Convert.base64Url(token.split('.')[1]).toObject() as any;
+    expect(claims).toMatchObject({ iss: alice.uri, htm: 'PUT', htu: url, bdh: await DapRequestAuth.hashBody(body) });
+    expect(claims.exp - claims.iat).toBe(DapRequestAuth.DEFAULT_TTL);
+  });
+
+  test('signs requests', async () => {
+    const request = await DapRequestAuth.signRequest(new Request(url, { method: 'DELETE', body }), { did: alice });
+
+    expect(request.headers.get('Authorization')).toStartWith('Bearer ');
+    expect(await verifier.verify(request)).toBe(alice.uri);
+  });
+
+  test('rejects requests without a bearer token', async () => {
+    await expect(verifier.verify(new Request(url, { method: 'PUT', body }))).rejects.toThrow(InvalidRequestAuth);
+    await expect(verifier.verify(authenticatedRequest(''))).rejects.toThrow('Missing bearer token');
+  });
+
+  test('rejects replayed tokens', async () => {
+    const token = await DapRequestAuth.createToken({ did: alice, method: 'PUT', url, body });
+
+    await verifier.verify(authenticatedRequest(token));
+    await expect(verifier.verify(authenticatedRequest(token))).rejects.toThrow('Token was already used');
+  });
+
+  test('rejects tokens issued for another request', async () => {
+    const token = await DapRequestAuth.createToken({ did: alice, method: 'PUT', url, body });
+
+    await expect(verifier.verify(authenticatedRequest(token, { method: 'DELETE', body }))).rejects.toThrow('Issued for another request');
+    await expect(verifier.verify(authenticatedRequest(token, { method: 'PUT', body: '{}' }))).rejects.toThrow('Body does not match');
+  });
+
+  test('rejects expired, future and long-lived tokens', async () => {
+    const issuedAt = new Date('2024-01-01T00:00:00Z');
+    const tokenAt = (now: Date, ttl?: number) => DapRequestAuth.createToken({ did: alice, method: 'PUT', url, body, now, ttl });
+    const verifierAt = (now: Date) => new DapRequestVerifier({ clock: () => now });
+
+    expect(await verifierAt(new Date('2024-01-01T00:01:20Z')).verify(authenticatedRequest(await tokenAt(issuedAt)))).toBe(alice.uri); // Within clock skew.
+    await expect(verifierAt(new Date('2024-01-01T00:02:00Z')).verify(authenticatedRequest(await tokenAt(issuedAt)))).rejects.toThrow('Expired or not yet valid');
+    await expect(verifierAt(new Date('2023-12-31T23:59:00Z')).verify(authenticatedRequest(await tokenAt(issuedAt)))).rejects.toThrow('Expired or not yet valid');
+    await expect(verifierAt(issuedAt).verify(authenticatedRequest(await tokenAt(issuedAt, 3600)))).rejects.toThrow('Expected validity of at most 300 seconds');
+  });
+
+  test('rejects tokens that are not request authentication tokens', async () => {
+    const jws = await Crypto.sign({ did: alice, payload: Convert.string(body).toUint8Array(), detached: false });
+    await expect(verifier.verify(authenticatedRequest(jws))).rejects.toThrow('Expected type ("typ") "dap-request+jwt"');
+
+    const claims = { iss: 'did:example:mallory', htm: 'PUT', htu: url, iat: 0, exp: 60, jti: 'nonce' };
+    const impersonation = await Crypto.sign({ did: alice, payload: Convert.object(claims).toUint8Array(), detached: false, typ: DapRequestAuth.TOKEN_TYPE });
+    await expect(verifier.verify(authenticatedRequest(impersonation))).rejects.toThrow('Expected issuer ("iss") to be the signer\'s DID');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+
+import { ErrorResponseSchema, RegistrationListResponseSchema, RegistrationMetadataSchema, RegistrationRequestSchema, validateSchema } from '../src/schemas';
+
+describe('schemas', () => {
+  const registration = {
+    id: 'reg_01j2x3y4z5',
+    handle: 'alice',
+    did: 'did:example:123',
+    domain: 'domain.com',
+    signature: 'eyJhbGciOiJFZERTQSJ9..c2ln',
+  };
+
+  test('accepts valid documents', () => {
+    expect(validateSchema(RegistrationRequestSchema, { ...registration, createdAt: '2024-07-01T00:00:00.000Z', version: 2 })).toEqual([]);
+    expect(validateSchema(RegistrationListResponseSchema, { proofs: [registration] })).toEqual([]);
+    expect(validateSchema(ErrorResponseSchema, { error: { message: 'failed' } })).toEqual([]);
+    expect(validateSchema(RegistrationMetadataSchema, { enabled: true, supportedDidMethods: ['dht', 'web'] })).toEqual([]);
+  });
+
+  test('reports every violation with its location', () => {
+    expect(validateSchema(RegistrationRequestSchema, { ...registration, handle: undefined, did: 1, expiresAt: 'tomorrow', version: 0 })).toEqual([
+      'handle: Required',
+      'did: Expected string',
+      'expiresAt: Expected an RFC 3339 date-time',
+      'version: Expected a number greater than or equal to 1',
+    ]);
+    expect(validateSchema(RegistrationListResponseSchema, { proofs: [{ ...registration, signature: '' }] })).toEqual(['proofs[0].signature: Expected at least 1 characters']);
+    expect(validateSchema(RegistrationMetadataSchema, null)).toEqual(['(root): Expected object']);
+  });
+
+  test('schemas serialize to plain JSON Schema documents', () => {
+    const schema = JSON.parse(JSON.stringify(RegistrationRequestSchema));
+
+    expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(schema.required).toEqual(['id', 'handle', 'did', 'domain', 'signature']);
+  });
+
+  test('schemas are published as JSON files', async () => {
+    const packageJson = await Bun.file(new URL('../package.json', import.meta.url)).json();
+    expect(packageJson.files).toContain('schemas');
+    expect(packageJson.exports['./schemas/*.json']).toBe('./schemas/*.json');
+
+    const schema = await Bun.file(new URL('../schemas/registration-request.json', import.meta.url)).json();
+    expect(schema).toEqual(RegistrationRequestSchema);
+    expect(schema.title).toBe('RegistrationRequest');
+  });
+});
\ No newline at end of file
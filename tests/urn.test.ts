@@ -32,4 +32,60 @@ describe('Urn', () => {
       expect(() => Urn.parse(urn)).toThrow('Invalid URN');
     });
   });
+
+  it('parses and serializes r-, q- and f-components', () => {
+    const urn = Urn.parse('urn:example:a123,z456?+abc?=xyz?+q#789?/');
+
+    expect(urn.nss).toBe('a123,z456');
+    expect(urn.rComponent).toBe('abc');
+    expect(urn.qComponent).toBe('xyz?+q');
+    expect(urn.fComponent).toBe('789?/');
+    expect(urn.toString()).toBe('urn:example:a123,z456?+abc?=xyz?+q#789?/');
+
+    expect(Urn.parse('urn:example:foo#').fComponent).toBe('');
+    expect(new Urn('example', 'foo', { qComponent: 'lang=en' }).toString()).toBe('urn:example:foo?=lang=en');
+  });
+
+  it('accepts percent-encoded octets and an uppercase prefix', () => {
+    const urn = Urn.parse('URN:Example:caf%C3%A9/a%2fb');
+
+    expect(urn.nid).toBe('Example');
+    expect(urn.nss).toBe('caf%C3%A9/a%2fb');
+    expect(urn.toString()).toBe('urn:Example:caf%C3%A9/a%2fb');
+  });
+
+  it('describes why a URN is invalid', () => {
+    const cases: [string, string][] = [
+      ['urn:a:nss', 'Expected namespace identifier (NID) of 2 to 32 letters, digits or hyphens'],
+      ['urn:-ab:nss', 'not starting or ending with a hyphen, but got "-ab"'],
+      [`urn:${'a'.repeat(33)}:nss`, 'Expected namespace identifier (NID)'],
+      ['urn:nid_x:nss', 'but got "nid_x"'],
+      ['urn:nid', 'Expected ":" after the namespace identifier (NID)'],
+      ['urn:nid:', 'Expected non-empty namespace specific string (NSS)'],
+      ['urn:nid:/nss', 'Unexpected character "/" at position 0 of namespace specific string (NSS)'],
+      ['urn:nid:a b', 'Unexpected character " " at position 1'],
+      ['urn:nid:café', 'characters outside of the allowed set must be percent-encoded'],
+      ['urn:nid:nss?x', 'Unexpected character "?"'],
+      ['urn:nid:100%', 'Expected "%" to be followed by two hex digits in namespace specific string (NSS) "100%"'],
+      ['urn:nid:nss?+', 'Expected non-empty r-component'],
+      ['urn:nid:nss?=', 'Expected non-empty q-component'],
+      ['urn:nid:nss#a b', 'of f-component "a b"'],
+    ];
+
+    for (const [urn, message] of cases) {
+      expect(() => Urn.parse(urn)).toThrow(InvalidUrn);
+      expect(() => Urn.parse(urn)).toThrow(message);
+    }
+
+    expect(() => new Urn('nid', 'nss', { rComponent: '' })).toThrow('Expected non-empty r-component');
+  });
+
+  it('compares URNs for lexical equivalence', () => {
+    const urn = Urn.parse('urn:example:a%2Cb');
+
+    expect(urn.equals('URN:EXAMPLE:a%2cb')).toBeTrue();
+    expect(urn.equals('urn:example:a%2Cb?+resolver?=query#fragment')).toBeTrue();
+    expect(urn.equals(new Urn('example', 'A%2Cb'))).toBeFalse();
+    expect(urn.equals('urn:example:a,b')).toBeFalse();
+  });
 });
\ No newline at end of file